@@ -6,6 +6,9 @@ import { errorHandler } from './middleware/errorHandler.js';
 import mongoSanitize from "express-mongo-sanitize";
 import morgan from "morgan";
 import router from './routes/router.index.js'
+import { startWaitlistSweeper } from './lib/waitlist.js';
+import { registerJobs } from './lib/jobs.js';
+import { startScheduler } from './lib/scheduler.js';
 
 // Load environment variables
 dotenv.config();
@@ -62,6 +65,9 @@ app.listen(Number(PORT), '0.0.0.0', () => {
   console.log(`🏠 Local:   http://localhost:${PORT}`);
   console.log(`🌐 Network: http://192.168.1.108:${PORT}`);
   console.log(`-----------------------------------------------`);
+  startWaitlistSweeper();
+  registerJobs();
+  startScheduler();
 });
 
 export default app;
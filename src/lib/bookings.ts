@@ -0,0 +1,531 @@
+import crypto from 'crypto';
+import { Booking, BookingItem, Prisma, PromoCode, RecurrenceFrequency, Salon, SalonMembership, Service, ServiceVariant, Slot } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { createError } from '../middleware/errorHandler.js';
+import { bookingSlotIds, findSpannedSlots, releaseSlots, reserveSlots, slotStartDateTime } from './slots.js';
+import {
+  assertStaffAvailable,
+  assertStaffPerforms,
+  isStaffLockConflict,
+  lockStaffDay,
+  pickAvailableStaff,
+  staffServiceTerms,
+} from './staff.js';
+import { offerFreedCapacity } from './waitlist.js';
+import { PolicyOverride, bookingPolicy, evaluateCancellation, recordPolicyOverride } from './policy.js';
+import { AppointmentData, notify, notifySalonMembers } from './notifications/index.js';
+import { publishBookingEvent, publishSlotCapacity } from './salonEvents.js';
+import { resolveVariant } from './catalogue.js';
+import { claimPromoCode, evaluatePromoCode, releasePromoRedemption } from './promoCodes.js';
+import { WeeklyHours, findHoursExceptions, isWithinHours } from './hours.js';
+import { toDateKey, zonedParts } from './time.js';
+
+export interface BookingLine {
+  service: Service;
+  // The option chosen, for services with variants
+  variant?: ServiceVariant | null;
+  // A staff member's user id, or 'any' to auto-assign whoever is free
+  staffId?: string;
+}
+
+interface ReserveBookingProps {
+  userId: string;
+  salonId: string;
+  // Services in the order they are performed
+  lines: BookingLine[];
+  slot: Slot;
+  startTime: Date;
+  notes?: string;
+  seriesId?: string;
+  // Code entered by the customer, checked again and redeemed with the booking
+  promo?: PromoCode;
+}
+
+interface CancelBookingOptions {
+  status?: 'cancelled' | 'no_show';
+  // Cancelled inside the salon's notice period
+  lateCancellation?: boolean;
+  // Staff bypassing the cancellation policy; audited with the cancellation
+  override?: PolicyOverride;
+}
+
+interface MoveBookingProps {
+  slot: Slot;
+  // Replaces the booked service (single-service bookings only)
+  service?: Service;
+  variant?: ServiceVariant | null;
+  // Reassigns every line of the visit; null removes the staff member
+  staffId?: string | null;
+  // Staff bypassing the reschedule policy; audited with the move
+  override?: PolicyOverride;
+}
+
+/**
+ * Short code printed as the booking's check-in QR code
+ */
+export function generateQrCode(): string {
+  return crypto.randomBytes(8).toString('hex').toUpperCase();
+}
+
+/**
+ * Calendar dates of a recurring series. Monthly series that start on the
+ * 29th-31st fall back to the last day of shorter months.
+ */
+export function seriesDates(startDate: Date, frequency: RecurrenceFrequency, occurrences: number): Date[] {
+  const dates: Date[] = [];
+
+  for (let i = 0; i < occurrences; i++) {
+    if (frequency === 'monthly') {
+      const year = startDate.getUTCFullYear();
+      const month = startDate.getUTCMonth() + i;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      dates.push(new Date(Date.UTC(year, month, Math.min(startDate.getUTCDate(), lastDay))));
+    } else {
+      const stepDays = frequency === 'weekly' ? 7 : 14;
+      dates.push(new Date(startDate.getTime() + i * stepDays * 24 * 60 * 60000));
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Reject a visit that starts or runs past the salon's hours on its day,
+ * closures and special hours included. Slots left over from before an hours
+ * change would otherwise still take bookings.
+ */
+async function assertWithinSalonHours(salonId: string, start: Date, end: Date): Promise<void> {
+  const salon = await prisma.salon.findUniqueOrThrow({
+    where: { id: salonId },
+    select: { operatingHours: true, timezone: true },
+  });
+
+  const day = toDateKey(zonedParts(start, salon.timezone).date);
+  const exceptions = await findHoursExceptions(salonId, day, day);
+
+  if (!isWithinHours(salon.operatingHours as unknown as WeeklyHours, start, end, salon.timezone, exceptions)) {
+    throw createError('The salon is not open for the whole of this appointment', 400, 'OUTSIDE_OPENING_HOURS');
+  }
+}
+
+/**
+ * Memberships of the staff members lines ask for by name, whose own prices and durations apply
+ */
+function findRequestedStaff(salonId: string, lines: BookingLine[]): Promise<SalonMembership[]> {
+  const staffIds = lines.map(l => l.staffId).filter((id): id is string => !!id && id !== 'any');
+  if (staffIds.length === 0) return Promise.resolve([]);
+
+  return prisma.salonMembership.findMany({ where: { salonId, userId: { in: staffIds } } });
+}
+
+/**
+ * Lay services out back to back from `startTime`. A line with a chosen
+ * staff member gets their price and duration. For 'any', whoever is free is
+ * picked here, and the visit is priced and timed as that member does it.
+ */
+async function scheduleLines(
+  salonId: string,
+  lines: BookingLine[],
+  startTime: Date,
+  excludeBookingId?: string
+): Promise<(BookingItem & { requestedStaffId?: string | null })[]> {
+  const staff = await findRequestedStaff(salonId, lines);
+  const items: (BookingItem & { requestedStaffId?: string | null })[] = [];
+  let cursor = startTime.getTime();
+
+  for (const { service, variant, staffId } of lines) {
+    const itemStart = new Date(cursor);
+    let requestedStaffId = staffId ?? null;
+    let terms = staffServiceTerms(staff.find(m => m.userId === staffId), service, variant);
+
+    if (staffId === 'any') {
+      const picked = await pickAvailableStaff(salonId, itemStart, service, variant, excludeBookingId);
+      if (!picked) throw createError('No staff member is available at this time', 409, 'STAFF_UNAVAILABLE');
+
+      requestedStaffId = picked.userId;
+      terms = { price: picked.price, durationMinutes: picked.durationMinutes };
+    }
+
+    cursor += terms.durationMinutes * 60000;
+    items.push({
+      serviceId: service.id,
+      variantId: variant?.id ?? null,
+      variantName: variant?.name ?? null,
+      staffId: null,
+      requestedStaffId,
+      name: service.name,
+      price: terms.price,
+      durationMinutes: terms.durationMinutes,
+      startTime: itemStart,
+      endTime: new Date(cursor),
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Line items of a visit booked into places already held for it (a waitlist
+ * offer), laid out as any other booking's
+ */
+export async function heldVisitItems(salonId: string, lines: BookingLine[], startTime: Date): Promise<BookingItem[]> {
+  const items = await scheduleLines(salonId, lines, startTime);
+  return items.map(({ requestedStaffId, ...item }) => ({ ...item, staffId: requestedStaffId ?? null }));
+}
+
+/**
+ * Verify and assign the staff member of every line. Runs inside the booking
+ * transaction, claiming each staff member's day first so two customers can't
+ * both pass the check for the same stylist.
+ */
+async function assignStaff(
+  tx: Prisma.TransactionClient,
+  salonId: string,
+  items: (BookingItem & { requestedStaffId?: string | null })[],
+  excludeBookingId?: string
+): Promise<BookingItem[]> {
+  const assigned: BookingItem[] = [];
+  const salon = items.some(item => item.requestedStaffId)
+    ? await tx.salon.findUniqueOrThrow({ where: { id: salonId }, select: { timezone: true } })
+    : null;
+
+  for (const { requestedStaffId, ...item } of items) {
+    if (requestedStaffId && salon) {
+      await lockStaffDay(tx, requestedStaffId, item.startTime, salon.timezone);
+      await assertStaffPerforms(salonId, requestedStaffId, item.serviceId, tx);
+      await assertStaffAvailable(salonId, requestedStaffId, item.startTime, item.endTime, excludeBookingId, tx);
+    }
+
+    assigned.push({ ...item, staffId: requestedStaffId ?? null });
+  }
+
+  return assigned;
+}
+
+/**
+ * Run a transaction that assigns staff, turning a lost race for a staff member into a 409
+ */
+async function bookingTransaction<T>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+  try {
+    return await prisma.$transaction(fn);
+  } catch (err) {
+    if (isStaffLockConflict(err)) {
+      throw createError('This staff member was just booked by someone else, please try again', 409, 'STAFF_UNAVAILABLE');
+    }
+    throw err;
+  }
+}
+
+/**
+ * Prices of a changed visit. A promo discount already given stays the same
+ * amount, so it can't be turned into a bigger one by swapping services.
+ */
+function discountedPrice(items: BookingItem[], discountAmount: number | null) {
+  const originalPrice = items.reduce((sum, item) => sum + item.price, 0);
+  if (discountAmount === null) return { totalPrice: originalPrice };
+
+  const discount = Math.min(discountAmount, originalPrice);
+  return { originalPrice, discountAmount: discount, totalPrice: Math.round((originalPrice - discount) * 100) / 100 };
+}
+
+/**
+ * Reserve every slot the visit spans, assign staff and create the booking in one transaction
+ */
+export async function reserveBooking({
+  userId,
+  salonId,
+  lines,
+  slot,
+  startTime,
+  notes,
+  seriesId,
+  promo,
+}: ReserveBookingProps) {
+  const scheduled = await scheduleLines(salonId, lines, startTime);
+  const endTime = scheduled[scheduled.length - 1].endTime;
+  const totalDurationMinutes = (endTime.getTime() - startTime.getTime()) / 60000;
+  await assertWithinSalonHours(salonId, startTime, endTime);
+
+  // A long visit occupies every slot it runs into, not just the first one
+  const slotIds = (await findSpannedSlots(slot, totalDurationMinutes)).map(s => s.id);
+
+  const booking = await bookingTransaction(async (tx) => {
+    await reserveSlots(tx, slotIds);
+
+    const items = await assignStaff(tx, salonId, scheduled);
+
+    const originalPrice = items.reduce((sum, item) => sum + item.price, 0);
+    const discount = promo
+      ? await evaluatePromoCode(promo, { userId, bookingDate: slot.date, items }, tx)
+      : null;
+    if (promo) await claimPromoCode(tx, promo, userId);
+
+    const created = await tx.booking.create({
+      data: {
+        userId,
+        salonId,
+        serviceId: items[0].serviceId,
+        slotId: slot.id,
+        slotIds,
+        staffId: items[0].staffId,
+        seriesId,
+        items,
+        totalPrice: discount?.totalPrice ?? originalPrice,
+        ...(discount && {
+          originalPrice: discount.originalPrice,
+          discountAmount: discount.discountAmount,
+          promoCodeId: promo?.id,
+        }),
+        totalDurationMinutes,
+        bookingDate: slot.date,
+        startTime,
+        endTime,
+        qrCode: generateQrCode(),
+        notes,
+        status: 'booked',
+      },
+      include: {
+        salon: { select: { name: true } },
+        service: { select: { name: true, price: true } },
+        staff: { select: { fullName: true } },
+      },
+    });
+
+    if (promo && discount) {
+      await tx.promoRedemption.create({
+        data: { promoCodeId: promo.id, bookingId: created.id, userId, salonId, discount: discount.discountAmount },
+      });
+    }
+
+    return created;
+  });
+
+  publishBookingEvent(booking, 'booking.created');
+  publishSlotCapacity(salonId, slotIds);
+
+  return booking;
+}
+
+/**
+ * The lines of a booking again, to be rescheduled with another staff member
+ */
+async function bookedLines(booking: Booking, staffId: string | null): Promise<BookingLine[]> {
+  const services = await prisma.service.findMany({
+    where: { id: { in: booking.items.map(item => item.serviceId) } },
+  });
+
+  return booking.items.map(item => {
+    const service = services.find(s => s.id === item.serviceId);
+    if (!service) throw createError(`${item.name} is no longer offered`, 400, 'SERVICE_NOT_FOUND');
+
+    return { service, variant: resolveVariant(service, item.variantId), staffId: staffId ?? undefined };
+  });
+}
+
+/**
+ * Move a booking to another slot and/or change its service or staff,
+ * swapping the slot reservation in one transaction
+ */
+export async function moveBooking(
+  booking: Booking,
+  { slot, service, variant, staffId, override }: MoveBookingProps
+): Promise<Booking> {
+  if (booking.status !== 'booked') {
+    throw createError('Only booked appointments can be rescheduled', 400);
+  }
+  if (service && booking.items.length > 1) {
+    throw createError('Services of a multi-service booking cannot be swapped', 400);
+  }
+
+  const salon = await prisma.salon.findUniqueOrThrow({
+    where: { id: booking.salonId },
+    select: { timezone: true },
+  });
+
+  const startTime = slotStartDateTime(slot, salon.timezone);
+  const offset = startTime.getTime() - booking.startTime.getTime();
+  const nextStaffId = staffId !== undefined ? staffId : booking.staffId;
+
+  let items: (BookingItem & { requestedStaffId?: string | null })[];
+  if (service) {
+    const lines = [{ service, variant, staffId: nextStaffId ?? undefined }];
+    items = await scheduleLines(booking.salonId, lines, startTime, booking.id);
+  } else if (staffId !== undefined && booking.items.some(item => item.staffId !== staffId)) {
+    // A new staff member brings their own prices and durations
+    items = await scheduleLines(booking.salonId, await bookedLines(booking, staffId), startTime, booking.id);
+  } else if (booking.items.length > 0) {
+    items = booking.items.map(item => ({
+      ...item,
+      requestedStaffId: item.staffId,
+      startTime: new Date(item.startTime.getTime() + offset),
+      endTime: new Date(item.endTime.getTime() + offset),
+    }));
+  } else {
+    // Bookings made before line items existed
+    items = [];
+  }
+
+  const endTime = items.length > 0
+    ? items[items.length - 1].endTime
+    : new Date(booking.endTime.getTime() + offset);
+  const totalDurationMinutes = (endTime.getTime() - startTime.getTime()) / 60000;
+  await assertWithinSalonHours(booking.salonId, startTime, endTime);
+
+  const slotIds = (await findSpannedSlots(slot, totalDurationMinutes)).map(s => s.id);
+
+  const updated = await bookingTransaction(async (tx) => {
+    await releaseSlots(tx, bookingSlotIds(booking));
+    await reserveSlots(tx, slotIds);
+
+    const assigned = await assignStaff(tx, booking.salonId, items, booking.id);
+    if (assigned.length === 0 && nextStaffId) {
+      await lockStaffDay(tx, nextStaffId, startTime, salon.timezone);
+      await assertStaffPerforms(booking.salonId, nextStaffId, booking.serviceId, tx);
+      await assertStaffAvailable(booking.salonId, nextStaffId, startTime, endTime, booking.id, tx);
+    }
+
+    if (override) await recordPolicyOverride(tx, booking.id, 'reschedule', override);
+
+    return tx.booking.update({
+      where: { id: booking.id },
+      data: {
+        slotId: slot.id,
+        slotIds,
+        bookingDate: slot.date,
+        startTime,
+        endTime,
+        staffId: assigned[0]?.staffId ?? nextStaffId,
+        ...(slot.id !== booking.slotId && { rescheduleCount: { increment: 1 } }),
+        ...(assigned.length > 0 && {
+          items: { set: assigned },
+          serviceId: assigned[0].serviceId,
+          ...discountedPrice(assigned, booking.discountAmount),
+          totalDurationMinutes,
+        }),
+      },
+    });
+  });
+
+  publishBookingEvent(updated, 'booking.updated');
+  publishSlotCapacity(booking.salonId, [...new Set([...bookingSlotIds(booking), ...slotIds])]);
+
+  if (slot.id !== booking.slotId) {
+    offerFreedCapacity(booking.salonId, booking.bookingDate)
+      .catch(err => console.error('Waitlist promotion failed:', err));
+  }
+
+  return updated;
+}
+
+/**
+ * Cancel a booking, give its slots back and offer them to the waitlist
+ */
+export async function cancelBooking(
+  booking: Booking,
+  { status = 'cancelled', lateCancellation = false, override }: CancelBookingOptions = {}
+): Promise<Booking> {
+  const updated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: booking.id, status: 'booked' },
+      data: {
+        status,
+        lateCancellation,
+        cancelledAt: new Date(),
+      },
+    });
+    if (count === 0) throw createError('Only booked appointments can be cancelled', 400);
+
+    await releaseSlots(tx, bookingSlotIds(booking));
+    // A cancelled visit gives its use of a promo code back; a no-show keeps it
+    if (status === 'cancelled') await releasePromoRedemption(tx, booking.id);
+    if (override) await recordPolicyOverride(tx, booking.id, 'cancel', override);
+
+    return tx.booking.findUniqueOrThrow({ where: { id: booking.id } });
+  });
+
+  publishBookingEvent(updated);
+  publishSlotCapacity(booking.salonId, bookingSlotIds(booking));
+
+  // Hand the freed place to the first waitlisted customer
+  offerFreedCapacity(booking.salonId, booking.bookingDate)
+    .catch(err => console.error('Waitlist promotion failed:', err));
+
+  return updated;
+}
+
+/**
+ * Cancel a booking on the customer's behalf, applying the salon's cancellation policy
+ */
+export async function cancelWithinPolicy(booking: Booking): Promise<Booking> {
+  const salon = await prisma.salon.findUniqueOrThrow({ where: { id: booking.salonId } });
+  const verdict = evaluateCancellation(bookingPolicy(salon), booking);
+
+  return cancelBooking(booking, { status: verdict.status, lateCancellation: verdict.late });
+}
+
+/**
+ * Services of a visit as shown to people, e.g. "Cut (Long), Colour"
+ */
+export function bookingServiceName(
+  booking: Pick<Booking, 'items'> & { service?: { name: string } | null }
+): string | undefined {
+  return booking.items.length > 0
+    ? booking.items.map(item => (item.variantName ? `${item.name} (${item.variantName})` : item.name)).join(', ')
+    : booking.service?.name;
+}
+
+/**
+ * What notifications say about a booking
+ */
+export function appointmentData(
+  booking: Pick<Booking, 'startTime' | 'items'> & {
+    service?: { name: string } | null;
+    staff?: { fullName: string } | null;
+  },
+  salon: Pick<Salon, 'name' | 'timezone'>,
+  customerName: string
+): AppointmentData {
+  return {
+    customerName,
+    dateTime: booking.startTime,
+    timeZone: salon.timezone,
+    salonName: salon.name,
+    serviceName: bookingServiceName(booking),
+    staffName: booking.staff?.fullName,
+  };
+}
+
+/**
+ * Tell the customer and the salon's members that a booking was cancelled.
+ * Skip the customer when they have already been told (e.g. by an SMS reply).
+ */
+export async function notifyCancellation(bookingId: string, { notifyCustomer = true } = {}): Promise<void> {
+  const booking = await prisma.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: {
+      user: { select: { fullName: true, phone: true, email: true } },
+      salon: { select: { name: true, timezone: true } },
+      service: { select: { name: true } },
+      staff: { select: { fullName: true } },
+    },
+  });
+
+  const data = appointmentData(booking, booking.salon, booking.user.fullName);
+
+  if (notifyCustomer) {
+    await notify({
+      type: 'booking_cancellation',
+      recipient: { userId: booking.userId, phone: booking.user.phone, email: booking.user.email },
+      data,
+      salonId: booking.salonId,
+      bookingId: booking.id,
+    });
+  }
+
+  await notifySalonMembers({
+    type: 'cancellation_alert',
+    data,
+    salonId: booking.salonId,
+    bookingId: booking.id,
+  });
+}
@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { SalonMembership, Service, ServiceVariant } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { createError } from '../middleware/errorHandler.js';
+import { performsService, staffServiceTerms } from './staff.js';
+
+export interface VariantInput {
+  // Kept when editing an existing variant; new variants get one
+  id?: string;
+  name: string;
+  price: number;
+  durationMinutes: number;
+}
+
+export interface DisplayPrice {
+  amount: number;
+  // Shown as "from $X" because variants cost different amounts
+  from: boolean;
+}
+
+/**
+ * Variants as stored, with ids for the new ones
+ */
+export function buildVariants(variants: VariantInput[]): ServiceVariant[] {
+  return variants.map(({ id, name, price, durationMinutes }) => ({
+    id: id ?? crypto.randomBytes(12).toString('hex'),
+    name,
+    price,
+    durationMinutes,
+  }));
+}
+
+/**
+ * Base price and duration of a service with variants (the cheapest and the
+ * shortest), so price filters and slot searches see what it starts from
+ */
+export function variantBase(variants: ServiceVariant[]): Pick<Service, 'price' | 'durationMinutes'> {
+  return {
+    price: Math.min(...variants.map(v => v.price)),
+    durationMinutes: Math.min(...variants.map(v => v.durationMinutes)),
+  };
+}
+
+/**
+ * The price a customer sees, or null when the salon hides it
+ */
+export function displayPrice(service: Pick<Service, 'price' | 'showPrice' | 'variants'>): DisplayPrice | null {
+  if (!service.showPrice) return null;
+  if (service.variants.length === 0) return { amount: service.price, from: false };
+
+  const prices = service.variants.map(v => v.price);
+  return { amount: Math.min(...prices), from: new Set(prices).size > 1 };
+}
+
+/**
+ * The variant booked of a service. Services with variants need one chosen;
+ * services without them take none.
+ */
+export function resolveVariant(service: Service, variantId?: string | null): ServiceVariant | null {
+  if (service.variants.length === 0) {
+    if (variantId) throw createError(`${service.name} has no options to choose from`, 400, 'VARIANT_NOT_FOUND');
+    return null;
+  }
+
+  if (!variantId) throw createError(`Choose an option for ${service.name}`, 400, 'VARIANT_REQUIRED');
+
+  const variant = service.variants.find(v => v.id === variantId);
+  if (!variant) throw createError(`That option of ${service.name} is not available`, 400, 'VARIANT_NOT_FOUND');
+
+  return variant;
+}
+
+type StaffMember = SalonMembership & { user: { fullName: string; avatarUrl: string | null } };
+
+/**
+ * Staff members who perform a service, with what they charge and how long they take
+ * (per variant for services with variants)
+ */
+function serviceStaff(service: Service, staff: StaffMember[]) {
+  return staff
+    .filter(member => performsService(member, service.id))
+    .map(member => ({
+      id: member.userId,
+      fullName: member.user.fullName,
+      avatarUrl: member.user.avatarUrl,
+      ...(service.variants.length === 0
+        ? staffServiceTerms(member, service)
+        : { variants: service.variants.map(variant => ({ id: variant.id, ...staffServiceTerms(member, service, variant) })) }),
+    }));
+}
+
+/**
+ * A salon's active services grouped under its categories, both in their
+ * manual order. Services without a category come last. With `includeStaff`,
+ * each service lists the staff members who offer it.
+ */
+export async function serviceCatalogue(salonId: string, { includeStaff = false } = {}) {
+  const [categories, services, staff] = await Promise.all([
+    prisma.serviceCategory.findMany({
+      where: { salonId },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    }),
+    prisma.service.findMany({
+      where: { salonId, isActive: true },
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    }),
+    includeStaff
+      ? prisma.salonMembership.findMany({
+        where: { salonId },
+        include: { user: { select: { fullName: true, avatarUrl: true } } },
+        orderBy: { createdAt: 'asc' },
+      })
+      : Promise.resolve([]),
+  ]);
+
+  const withPrice = (service: Service) => ({
+    ...service,
+    displayPrice: displayPrice(service),
+    ...(includeStaff && { staff: serviceStaff(service, staff) }),
+  });
+
+  return {
+    categories: categories.map(category => ({
+      ...category,
+      services: services.filter(s => s.categoryId === category.id).map(withPrice),
+    })),
+    uncategorised: services
+      .filter(s => !s.categoryId || !categories.some(c => c.id === s.categoryId))
+      .map(withPrice),
+  };
+}
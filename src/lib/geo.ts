@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import axios from 'axios';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export type GeocodeResult =
+  | { status: 'found'; point: GeoPoint }
+  | { status: 'not_found' }
+  // The lookup itself failed (outage, timeout), so nothing is known about the address
+  | { status: 'failed' }
+  // No geocoder is configured, so addresses aren't looked up at all
+  | { status: 'disabled' };
+
+export interface Geocoder {
+  // Null when the address can't be found
+  geocode(address: string): Promise<GeoPoint | null>;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+// Centres of the cities the offline geocoder knows
+const STUB_CITIES: Record<string, GeoPoint> = {
+  adelaide: { latitude: -34.9285, longitude: 138.6007 },
+  brisbane: { latitude: -27.4698, longitude: 153.0251 },
+  canberra: { latitude: -35.2809, longitude: 149.13 },
+  darwin: { latitude: -12.4634, longitude: 130.8456 },
+  hobart: { latitude: -42.8821, longitude: 147.3272 },
+  melbourne: { latitude: -37.8136, longitude: 144.9631 },
+  perth: { latitude: -31.9523, longitude: 115.8613 },
+  sydney: { latitude: -33.8688, longitude: 151.2093 },
+  auckland: { latitude: -36.8485, longitude: 174.7633 },
+  london: { latitude: 51.5072, longitude: -0.1276 },
+};
+// Addresses in the same city are spread up to this far from its centre
+const STUB_SPREAD_DEGREES = 0.05;
+
+/**
+ * Offline geocoder for development and tests: places an address near the
+ * centre of a known city it mentions, at a spot derived from the address so
+ * the same address always lands in the same place
+ */
+export const stubGeocoder: Geocoder = {
+  async geocode(address) {
+    const text = address.toLowerCase();
+    const city = Object.keys(STUB_CITIES).find(name => text.includes(name));
+    if (!city) return null;
+
+    const hash = crypto.createHash('sha256').update(text).digest();
+    const offset = (byte: number) => ((byte / 255) * 2 - 1) * STUB_SPREAD_DEGREES;
+
+    return {
+      latitude: STUB_CITIES[city].latitude + offset(hash[0]),
+      longitude: STUB_CITIES[city].longitude + offset(hash[1]),
+    };
+  },
+};
+
+/**
+ * OpenStreetMap's Nominatim service (GEOCODER_URL overrides the public instance)
+ */
+export const nominatimGeocoder: Geocoder = {
+  async geocode(address) {
+    const { data } = await axios.get<{ lat: string; lon: string }[]>(
+      `${process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org'}/search`,
+      {
+        params: { q: address, format: 'jsonv2', limit: 1 },
+        headers: { 'User-Agent': process.env.GEOCODER_USER_AGENT || 'SalonsVibes/1.0' },
+        timeout: 5000,
+      }
+    );
+    if (data.length === 0) return null;
+
+    return { latitude: Number(data[0].lat), longitude: Number(data[0].lon) };
+  },
+};
+
+const geocoders: Record<string, Geocoder> = {
+  stub: stubGeocoder,
+  nominatim: nominatimGeocoder,
+};
+
+/**
+ * The geocoder in use, or null for none. GEOCODER=stub|nominatim wins, and
+ * GEOCODER_URL alone means a Nominatim server there. Otherwise development and
+ * test use the offline stub, and production geocodes nothing rather than send
+ * every address to the public Nominatim server unasked.
+ */
+export function geocoder(): Geocoder | null {
+  const name = process.env.GEOCODER
+    || (process.env.GEOCODER_URL ? 'nominatim' : null)
+    || (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test' ? 'stub' : null);
+  if (!name) return null;
+
+  const selected = geocoders[name];
+  if (!selected) throw new Error(`Unknown geocoder: ${name}`);
+  return selected;
+}
+
+/**
+ * Coordinates of a salon's address. Lookup failures are logged rather than
+ * thrown so saving the salon still works, and are told apart from an address
+ * that can't be found so callers can keep the coordinates they have.
+ */
+export async function geocodeAddress(address: string, city: string): Promise<GeocodeResult> {
+  const selected = geocoder();
+  if (!selected) return { status: 'disabled' };
+
+  try {
+    const point = await selected.geocode(`${address}, ${city}`);
+    return point ? { status: 'found', point } : { status: 'not_found' };
+  } catch (err) {
+    console.error('Geocoding failed:', err);
+    return { status: 'failed' };
+  }
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Latitude and longitude ranges that contain every point within `radiusKm`,
+ * for narrowing a query before measuring exact distances. Longitude is left
+ * open near the poles and where the box would cross the antimeridian.
+ */
+export function boundingBox({ latitude, longitude }: GeoPoint, radiusKm: number) {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const minLat = Math.max(-90, latitude - latDelta);
+  const maxLat = Math.min(90, latitude + latDelta);
+
+  const cosLat = Math.cos(toRadians(Math.max(Math.abs(minLat), Math.abs(maxLat))));
+  const lngDelta = cosLat > 0 ? radiusKm / (KM_PER_DEGREE * cosLat) : 180;
+  const wraps = longitude - lngDelta < -180 || longitude + lngDelta > 180;
+
+  return {
+    latitude: { gte: minLat, lte: maxLat },
+    longitude: wraps ? null : { gte: longitude - lngDelta, lte: longitude + lngDelta },
+  };
+}
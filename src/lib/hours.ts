@@ -0,0 +1,115 @@
+import { Prisma, SalonHoursException } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { toDateKey, zonedParts, zonedTimeToUtc } from './time.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface DayHours {
+  open: string;   // "HH:mm"
+  close: string;  // "HH:mm"
+  closed: boolean;
+}
+
+export type WeeklyHours = Record<string, DayHours>;
+
+export type HoursException = Pick<SalonHoursException, 'date' | 'closed' | 'open' | 'close'>;
+
+export interface OpeningStatus {
+  isOpenNow: boolean;
+  // When today's hours end, while open
+  closesAt: Date | null;
+  // Start of the next opening, while closed (null if none in the look-ahead)
+  nextOpening: Date | null;
+}
+
+export const DAYS_OF_WEEK = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// How far ahead "next opening" looks for an open day
+const NEXT_OPENING_LOOKAHEAD_DAYS = 31;
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+export function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Opening hours that apply on a calendar date key, or null when closed.
+ * A dated exception replaces the weekly pattern for that day.
+ */
+export function hoursForDate(hours: WeeklyHours, date: Date, exceptions: HoursException[] = []): DayHours | null {
+  const exception = exceptions.find(e => e.date.getTime() === date.getTime());
+  if (exception) {
+    if (exception.closed || !exception.open || !exception.close) return null;
+    return { open: exception.open, close: exception.close, closed: false };
+  }
+
+  const config = hours[DAYS_OF_WEEK[date.getUTCDay()]];
+  if (!config || config.closed || !config.open || !config.close) return null;
+  return config;
+}
+
+/**
+ * Check that [start, end) falls inside the opening hours of its local day
+ */
+export function isWithinHours(
+  hours: WeeklyHours,
+  start: Date,
+  end: Date,
+  timeZone: string,
+  exceptions: HoursException[] = []
+): boolean {
+  const local = zonedParts(start, timeZone);
+  const config = hoursForDate(hours, toDateKey(local.date), exceptions);
+  if (!config) return false;
+
+  const endMinutes = local.minutes + (end.getTime() - start.getTime()) / 60000;
+  return local.minutes >= toMinutes(config.open) && endMinutes <= toMinutes(config.close);
+}
+
+/**
+ * A salon's hours exceptions for the date keys in [from, to]
+ */
+export function findHoursExceptions(salonId: string, from: Date, to: Date, db: Db = prisma) {
+  return db.salonHoursException.findMany({
+    where: { salonId, date: { gte: from, lte: to } },
+    orderBy: { date: 'asc' },
+  });
+}
+
+/**
+ * Whether the salon is open at `now`, and if not, when it next opens
+ */
+export function openingStatus(
+  hours: WeeklyHours,
+  exceptions: HoursException[],
+  timeZone: string,
+  now: Date = new Date()
+): OpeningStatus {
+  const today = toDateKey(zonedParts(now, timeZone).date);
+
+  for (let i = 0; i <= NEXT_OPENING_LOOKAHEAD_DAYS; i++) {
+    const date = new Date(today.getTime() + i * 24 * 60 * 60000);
+    const config = hoursForDate(hours, date, exceptions);
+    if (!config) continue;
+
+    const day = date.toISOString().split('T')[0];
+    const opensAt = zonedTimeToUtc(day, config.open, timeZone);
+    const closesAt = zonedTimeToUtc(day, config.close, timeZone);
+
+    if (now < opensAt) return { isOpenNow: false, closesAt: null, nextOpening: opensAt };
+    if (now < closesAt) return { isOpenNow: true, closesAt, nextOpening: null };
+  }
+
+  return { isOpenNow: false, closesAt: null, nextOpening: null };
+}
+
+/**
+ * Look-ahead window (in date keys) that `openingStatus` needs exceptions for
+ */
+export function openingStatusRange(timeZone: string, now: Date = new Date()): { from: Date; to: Date } {
+  const from = toDateKey(zonedParts(now, timeZone).date);
+  return { from, to: new Date(from.getTime() + NEXT_OPENING_LOOKAHEAD_DAYS * 24 * 60 * 60000) };
+}
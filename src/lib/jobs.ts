@@ -0,0 +1,46 @@
+import { registerJob } from './scheduler.js';
+import { SLOT_GENERATION_JOB, SLOT_GENERATION_LOCK_TTL_MS, generateUpcomingSlots } from './slotGeneration.js';
+import { sendDueReminders } from './reminders.js';
+import { deliverDueMessages } from './notifications/queue.js';
+import { pruneSalonEvents } from './salonEvents.js';
+import { sendDueReviewRequests } from './reviews.js';
+
+/**
+ * Register the app's background jobs with the scheduler
+ */
+export function registerJobs(): void {
+  registerJob({
+    name: SLOT_GENERATION_JOB,
+    intervalMs: Number(process.env.SLOT_GENERATION_INTERVAL_MINUTES || 60) * 60000,
+    lockTtlMs: SLOT_GENERATION_LOCK_TTL_MS,
+    run: () => generateUpcomingSlots(Number(process.env.SLOT_GENERATION_DAYS_AHEAD || 30)),
+  });
+
+  registerJob({
+    name: 'appointment-reminders',
+    intervalMs: 5 * 60000,
+    lockTtlMs: 10 * 60000,
+    run: sendDueReminders,
+  });
+
+  registerJob({
+    name: 'review-requests',
+    intervalMs: 15 * 60000,
+    lockTtlMs: 10 * 60000,
+    run: sendDueReviewRequests,
+  });
+
+  registerJob({
+    name: 'notification-delivery',
+    intervalMs: 30 * 1000,
+    lockTtlMs: 5 * 60000,
+    run: deliverDueMessages,
+  });
+
+  registerJob({
+    name: 'salon-event-pruning',
+    intervalMs: 60 * 60000,
+    lockTtlMs: 10 * 60000,
+    run: pruneSalonEvents,
+  });
+}
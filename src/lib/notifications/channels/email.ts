@@ -0,0 +1,37 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { ChannelAdapter } from '../types.js';
+
+let transport: Transporter | null = null;
+
+function getTransport(): Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new Error('SMTP_HOST not configured');
+  }
+
+  transport ??= nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  return transport;
+}
+
+/**
+ * Plain-text email over SMTP
+ */
+export const emailChannel: ChannelAdapter = {
+  async send({ to, subject, body }) {
+    const info = await getTransport().sendMail({
+      from: process.env.SMTP_FROM || 'Salons Vibes <no-reply@salonsvibes.com>',
+      to,
+      subject,
+      text: body,
+    });
+
+    return { providerMessageId: info.messageId };
+  },
+};
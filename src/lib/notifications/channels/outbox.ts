@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import { ChannelAdapter, OutgoingMessage } from '../types.js';
+
+export interface OutboxEntry extends OutgoingMessage {
+  sentAt: Date;
+}
+
+// Messages "sent" while the outbox transport is active
+const entries: OutboxEntry[] = [];
+
+/**
+ * Everything sent through the outbox, oldest first
+ */
+export function outboxMessages(): readonly OutboxEntry[] {
+  return entries;
+}
+
+/**
+ * Forget everything in the in-memory outbox
+ */
+export function clearOutbox(): void {
+  entries.length = 0;
+}
+
+/**
+ * Development/test transport: keeps messages in memory, logs them and, when
+ * NOTIFICATION_OUTBOX_FILE is set, appends them to that file as JSON lines
+ */
+export const outboxChannel: ChannelAdapter = {
+  async send(message) {
+    const entry = { ...message, sentAt: new Date() };
+    entries.push(entry);
+
+    console.log(`📱 [DEV ${message.channel.toUpperCase()}] to ${message.to}: ${message.body}`);
+
+    if (process.env.NOTIFICATION_OUTBOX_FILE) {
+      await fs.appendFile(process.env.NOTIFICATION_OUTBOX_FILE, `${JSON.stringify(entry)}\n`);
+    }
+
+    return { providerMessageId: `outbox-${entries.length}` };
+  },
+};
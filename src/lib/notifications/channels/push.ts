@@ -0,0 +1,60 @@
+import webpush from 'web-push';
+import { prisma } from '../../prisma.js';
+import { ChannelAdapter } from '../types.js';
+
+let configured = false;
+
+function configure(): void {
+  if (configured) return;
+  if (!process.env.VAPID_PUBLIC_KEY || !process.env.VAPID_PRIVATE_KEY) {
+    throw new Error('VAPID keys not configured');
+  }
+
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || 'mailto:no-reply@salonsvibes.com',
+    process.env.VAPID_PUBLIC_KEY,
+    process.env.VAPID_PRIVATE_KEY
+  );
+  configured = true;
+}
+
+/**
+ * Web push to every browser the user subscribed. `to` is the user id.
+ * Subscriptions the push service reports as gone are removed.
+ */
+export const pushChannel: ChannelAdapter = {
+  async send({ to, subject, body, url }) {
+    configure();
+
+    const subscriptions = await prisma.pushSubscription.findMany({ where: { userId: to } });
+    if (subscriptions.length === 0) {
+      throw new Error('User has no push subscriptions');
+    }
+
+    const payload = JSON.stringify({ title: subject, body, url });
+    let delivered = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        await webpush.sendNotification(
+          { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+          payload
+        );
+        delivered++;
+      } catch (err: any) {
+        if (err.statusCode === 404 || err.statusCode === 410) {
+          // deleteMany: it may already have been removed by an unsubscribe or another send
+          await prisma.pushSubscription.deleteMany({ where: { id: subscription.id } });
+        } else {
+          console.error('Web push failed:', err);
+        }
+      }
+    }
+
+    if (delivered === 0) {
+      throw new Error('No push subscription accepted the notification');
+    }
+
+    return {};
+  },
+};
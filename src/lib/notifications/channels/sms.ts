@@ -0,0 +1,30 @@
+import client from '../../twilio.js';
+import { ChannelAdapter } from '../types.js';
+
+/**
+ * Where Twilio reports delivery status, when the public webhook URL is known
+ */
+export function twilioStatusCallback(): string | undefined {
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/api/sms/status` : undefined;
+}
+
+/**
+ * Text messages through Twilio
+ */
+export const smsChannel: ChannelAdapter = {
+  async send({ to, body }) {
+    if (!process.env.TWILIO_PHONE_NUMBER) {
+      throw new Error('TWILIO_PHONE_NUMBER not configured');
+    }
+
+    const message = await client.messages.create({
+      body,
+      from: process.env.TWILIO_PHONE_NUMBER,
+      to,
+      statusCallback: twilioStatusCallback(),
+    });
+
+    return { providerMessageId: message.sid };
+  },
+};
@@ -0,0 +1,23 @@
+import client from '../../twilio.js';
+import { ChannelAdapter } from '../types.js';
+import { twilioStatusCallback } from './sms.js';
+
+/**
+ * WhatsApp messages through Twilio, sent from the salon's WhatsApp number
+ */
+export const whatsAppChannel: ChannelAdapter = {
+  async send({ to, from, body }) {
+    if (!from) {
+      throw new Error('Salon has no WhatsApp number');
+    }
+
+    const message = await client.messages.create({
+      body,
+      from: `whatsapp:${from}`,
+      to: `whatsapp:${to}`,
+      statusCallback: twilioStatusCallback(),
+    });
+
+    return { providerMessageId: message.sid };
+  },
+};
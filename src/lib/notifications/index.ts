@@ -0,0 +1,206 @@
+import { NotificationPreferences, SalonRole } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { localeFallbacks, renderMessage } from './messages.js';
+import { allowsNotification, isSmsOptedOut, notificationPreferences } from './preferences.js';
+import { deliverMessage } from './queue.js';
+import { Channel, NotificationData, NotificationType, Recipient } from './types.js';
+
+export * from './types.js';
+export { channelAdapter } from './transport.js';
+
+export interface NotifyRequest<T extends NotificationType> {
+  type: T;
+  recipient: Recipient;
+  data: NotificationData[T];
+  // Salon the message is about (its WhatsApp number is used as the sender)
+  salonId?: string;
+  // Booking the message is about, so the salon can see what was sent
+  bookingId?: string;
+  // Overrides the type's default channels
+  channels?: Channel[];
+  url?: string;
+}
+
+export interface NotificationResult {
+  channel: Channel;
+  // 'queued' means the first attempt failed and the outbox worker will retry it
+  status: 'sent' | 'queued' | 'failed' | 'skipped';
+  // Why a channel was skipped
+  reason?: 'unreachable' | 'opted_out' | 'preferences';
+  messageId?: string;
+  error?: string;
+}
+
+const DEFAULT_CHANNELS: Record<NotificationType, Channel[]> = {
+  otp: ['sms'],
+  booking_confirmation: ['in_app', 'sms', 'email', 'push'],
+  booking_alert: ['in_app', 'sms', 'push'],
+  waitlist_offer: ['in_app', 'sms', 'email', 'push'],
+  appointment_reminder: ['in_app', 'sms', 'push'],
+  booking_cancellation: ['in_app', 'sms', 'email', 'push'],
+  review_request: ['in_app', 'sms', 'email', 'push'],
+  cancellation_alert: ['in_app', 'push'],
+  customer_reply: ['in_app', 'sms'],
+  payment_status: ['in_app', 'email'],
+  salon_status: ['in_app', 'sms', 'email'],
+};
+
+// Customer messages that go by WhatsApp instead of SMS when the salon has a number
+const WHATSAPP_TYPES: NotificationType[] = [
+  'booking_confirmation',
+  'waitlist_offer',
+  'appointment_reminder',
+  'booking_cancellation',
+  'review_request',
+];
+
+/**
+ * Fill in the contact details and preferences of a recipient known by user id
+ */
+async function resolveRecipient(recipient: Recipient): Promise<Recipient & { preferences: NotificationPreferences }> {
+  const user = recipient.userId
+    ? await prisma.user.findUnique({
+      where: { id: recipient.userId },
+      select: { phone: true, email: true, locale: true, notificationPreferences: true },
+    })
+    : null;
+
+  return {
+    ...recipient,
+    phone: recipient.phone !== undefined ? recipient.phone : user?.phone,
+    email: recipient.email !== undefined ? recipient.email : user?.email,
+    locale: recipient.locale !== undefined ? recipient.locale : user?.locale,
+    preferences: notificationPreferences(user),
+  };
+}
+
+/**
+ * Where a channel delivers to, or null if the recipient can't be reached on it
+ */
+async function channelAddress(channel: Channel, recipient: Recipient): Promise<string | null> {
+  switch (channel) {
+    case 'sms':
+    case 'whatsapp':
+      return recipient.phone ?? null;
+    case 'email':
+      return recipient.email ?? null;
+    case 'in_app':
+      return recipient.userId ?? null;
+    case 'push': {
+      if (!recipient.userId) return null;
+      const subscriptions = await prisma.pushSubscription.count({ where: { userId: recipient.userId } });
+      return subscriptions > 0 ? recipient.userId : null;
+    }
+  }
+}
+
+/**
+ * Send a notification on every channel it applies to and the recipient
+ * accepts. Each message is stored in the outbox and tried straight away;
+ * failed attempts are retried by the outbox worker rather than thrown, so
+ * callers can fire and forget.
+ */
+export async function notify<T extends NotificationType>({
+  type,
+  recipient,
+  data,
+  salonId,
+  bookingId,
+  channels,
+  url,
+}: NotifyRequest<T>): Promise<NotificationResult[]> {
+  const [to, salon] = await Promise.all([
+    resolveRecipient(recipient),
+    salonId
+      ? prisma.salon.findUnique({ where: { id: salonId }, select: { whatsAppNumber: true, locale: true } })
+      : Promise.resolve(null),
+  ]);
+
+  let selected = channels ?? DEFAULT_CHANNELS[type];
+  if (!channels && salon?.whatsAppNumber && process.env.WHATSAPP_ENABLED === 'true' && WHATSAPP_TYPES.includes(type)) {
+    selected = selected.map(channel => (channel === 'sms' ? 'whatsapp' : channel));
+  }
+
+  const rendered = await renderMessage(type, data, {
+    salonId,
+    bookingId,
+    locales: localeFallbacks(to.locale, salon?.locale),
+  });
+  const results: NotificationResult[] = [];
+
+  for (const channel of selected) {
+    if (!allowsNotification(to.preferences, type, channel)) {
+      results.push({ channel, status: 'skipped', reason: 'preferences' });
+      continue;
+    }
+
+    const address = await channelAddress(channel, to);
+    if (!address) {
+      results.push({ channel, status: 'skipped', reason: 'unreachable' });
+      continue;
+    }
+
+    if (channel === 'sms' && await isSmsOptedOut(address)) {
+      results.push({ channel, status: 'skipped', reason: 'opted_out' });
+      continue;
+    }
+
+    // The feed is our own database, so there is nothing to queue or retry
+    if (channel === 'in_app') {
+      const entry = await prisma.notification.create({
+        data: { userId: address, salonId, bookingId, type, title: rendered.subject, body: rendered.body, url },
+      });
+      results.push({ channel, status: 'sent', messageId: entry.id });
+      continue;
+    }
+
+    const queued = await prisma.outboundMessage.create({
+      data: {
+        ...rendered,
+        type,
+        channel,
+        to: address,
+        from: channel === 'whatsapp' ? salon?.whatsAppNumber : undefined,
+        url,
+        userId: to.userId,
+        salonId,
+        bookingId,
+      },
+    });
+
+    const message = await deliverMessage(queued.id) ?? queued;
+    if (message.status === 'skipped') {
+      results.push({ channel, status: 'skipped', reason: 'opted_out', messageId: message.id });
+      continue;
+    }
+    results.push({
+      channel,
+      status: message.status === 'failed' ? 'failed' : message.status === 'pending' ? 'queued' : 'sent',
+      messageId: message.id,
+      error: message.lastError ?? undefined,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Send a notification to every member of a salon, optionally only those with
+ * the given roles. Returns each member's results by user id.
+ */
+export async function notifySalonMembers<T extends NotificationType>({
+  roles,
+  ...request
+}: Omit<NotifyRequest<T>, 'recipient' | 'salonId'> & { salonId: string; roles?: SalonRole[] }) {
+  const members = await prisma.salonMembership.findMany({
+    where: { salonId: request.salonId, ...(roles && { role: { in: roles } }) },
+    select: { userId: true },
+  });
+
+  const results: Record<string, NotificationResult[]> = {};
+  for (const member of members) {
+    results[member.userId] = await notify({ ...request, recipient: { userId: member.userId } });
+  }
+
+  return results;
+}
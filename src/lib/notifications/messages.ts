@@ -0,0 +1,285 @@
+import { prisma } from '../prisma.js';
+import { formatDateTime } from '../time.js';
+import { AppointmentData, NotificationData, NotificationType, RenderedMessage } from './types.js';
+
+// Language of the platform's built-in wording
+export const DEFAULT_LOCALE = 'en';
+
+// Types whose wording a salon can change
+export const EDITABLE_TYPES = [
+  'booking_confirmation',
+  'appointment_reminder',
+  'booking_cancellation',
+  'waitlist_offer',
+  'review_request',
+] as const;
+
+export type EditableType = typeof EDITABLE_TYPES[number];
+
+export interface MessageTemplateText {
+  subject: string;
+  body: string;
+}
+
+export interface ResolvedTemplate extends MessageTemplateText {
+  locale: string;
+  // False when the platform default applies
+  custom: boolean;
+}
+
+interface RenderContext {
+  // Locale dates are formatted in
+  locale: string;
+  bookingId?: string;
+}
+
+type TemplateVariables = Record<string, string | number | null | undefined>;
+
+const APPOINTMENT_PLACEHOLDERS = ['customerName', 'salonName', 'serviceName', 'staffName', 'dateTime', 'manageUrl'];
+
+// Placeholders each type's templates may use
+export const TEMPLATE_PLACEHOLDERS: Record<NotificationType, string[]> = {
+  otp: ['otp'],
+  booking_confirmation: APPOINTMENT_PLACEHOLDERS,
+  booking_alert: [...APPOINTMENT_PLACEHOLDERS, 'dashboardUrl'],
+  waitlist_offer: [...APPOINTMENT_PLACEHOLDERS, 'holdMinutes', 'claimUrl'],
+  appointment_reminder: APPOINTMENT_PLACEHOLDERS,
+  booking_cancellation: APPOINTMENT_PLACEHOLDERS,
+  review_request: [...APPOINTMENT_PLACEHOLDERS, 'reviewUrl'],
+  cancellation_alert: [...APPOINTMENT_PLACEHOLDERS, 'dashboardUrl'],
+  customer_reply: ['customerName', 'customerPhone', 'message'],
+  payment_status: ['salonName', 'amountPaid', 'status'],
+  salon_status: ['salonName', 'status', 'reason'],
+};
+
+// Built-in wording, used when a salon hasn't written its own.
+// {{name}} is replaced by a value; {{#name}}...{{/name}} is left out when the value is empty.
+const DEFAULT_TEMPLATES: Record<NotificationType, MessageTemplateText> = {
+  otp: {
+    subject: 'Your verification code',
+    body: 'Your Salons Vibes verification code is: {{otp}}. Valid for 10 minutes.',
+  },
+
+  booking_confirmation: {
+    subject: 'Booking confirmed at {{salonName}}',
+    body: 'Hi {{customerName}}, your booking{{#serviceName}} for {{serviceName}}{{/serviceName}} at {{salonName}} is confirmed for {{dateTime}}{{#staffName}} with {{staffName}}{{/staffName}}. See you soon!{{#manageUrl}} Manage: {{manageUrl}}{{/manageUrl}}',
+  },
+
+  booking_alert: {
+    subject: 'New booking: {{customerName}}',
+    body: 'NEW BOOKING: {{customerName}}{{#serviceName}} ({{serviceName}}){{/serviceName}} scheduled for {{dateTime}}.{{#dashboardUrl}} View details: {{dashboardUrl}}{{/dashboardUrl}}',
+  },
+
+  waitlist_offer: {
+    subject: 'A spot opened up at {{salonName}}',
+    body: "Hi {{customerName}}, a spot opened up at {{salonName}} for {{dateTime}}. We're holding it for {{holdMinutes}} minutes.{{#claimUrl}} Claim it: {{claimUrl}}{{/claimUrl}}",
+  },
+
+  appointment_reminder: {
+    subject: 'Reminder: your appointment at {{salonName}}',
+    body: 'Hi {{customerName}}, a reminder of your appointment at {{salonName}} on {{dateTime}}. Reply C to confirm or X to cancel.{{#manageUrl}} Manage: {{manageUrl}}{{/manageUrl}}',
+  },
+
+  booking_cancellation: {
+    subject: 'Booking cancelled at {{salonName}}',
+    body: 'Hi {{customerName}}, your booking{{#serviceName}} for {{serviceName}}{{/serviceName}} at {{salonName}} on {{dateTime}} has been cancelled.',
+  },
+
+  review_request: {
+    subject: 'How was your visit to {{salonName}}?',
+    body: 'Hi {{customerName}}, thanks for visiting {{salonName}}{{#staffName}} and seeing {{staffName}}{{/staffName}}. How did we do?{{#reviewUrl}} Rate your visit: {{reviewUrl}}{{/reviewUrl}}',
+  },
+
+  cancellation_alert: {
+    subject: 'Booking cancelled: {{customerName}}',
+    body: 'CANCELLED: {{customerName}}{{#serviceName}} ({{serviceName}}){{/serviceName}} on {{dateTime}}.{{#dashboardUrl}} View details: {{dashboardUrl}}{{/dashboardUrl}}',
+  },
+
+  customer_reply: {
+    subject: 'Message from {{customerName}}',
+    body: 'SMS from {{customerName}} ({{customerPhone}}): {{message}}',
+  },
+
+  payment_status: {
+    subject: 'Payment {{status}}',
+    body: 'Your payment of {{amountPaid}} for {{salonName}} has been {{status}}.',
+  },
+
+  salon_status: {
+    subject: '{{salonName}} has been {{status}}',
+    body: 'Your salon {{salonName}} has been {{status}} on Salons Vibes.{{#reason}} Reason: {{reason}}{{/reason}}',
+  },
+};
+
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Public URL of the customer app, if one is configured
+ */
+export function appBaseUrl(): string | undefined {
+  const url = process.env.NEXT_PUBLIC_APP_URL || process.env.CORS_ORIGIN1;
+  return url ? url.replace(/\/$/, '') : undefined;
+}
+
+function appUrl(path: string): string | undefined {
+  const baseUrl = appBaseUrl();
+  return baseUrl && `${baseUrl}${path}`;
+}
+
+function appointmentVariables(data: AppointmentData, { locale, bookingId }: RenderContext): TemplateVariables {
+  return {
+    customerName: data.customerName,
+    salonName: data.salonName,
+    serviceName: data.serviceName,
+    staffName: data.staffName,
+    dateTime: formatDateTime(data.dateTime, data.timeZone, locale),
+    manageUrl: appUrl(bookingId ? `/bookings/${bookingId}` : '/bookings'),
+  };
+}
+
+type VariableBuilders = {
+  [T in NotificationType]: (data: NotificationData[T], context: RenderContext) => TemplateVariables
+};
+
+const variableBuilders: VariableBuilders = {
+  otp: ({ otp }) => ({ otp }),
+  booking_confirmation: appointmentVariables,
+  booking_alert: (data, context) => ({ ...appointmentVariables(data, context), dashboardUrl: appUrl('/dashboard') }),
+  waitlist_offer: (data, context) => ({
+    ...appointmentVariables(data, context),
+    holdMinutes: data.holdMinutes,
+    claimUrl: appUrl('/waitlist'),
+  }),
+  appointment_reminder: appointmentVariables,
+  booking_cancellation: appointmentVariables,
+  review_request: (data, context) => ({
+    ...appointmentVariables(data, context),
+    reviewUrl: appUrl(`/review?token=${data.reviewToken}`),
+  }),
+  cancellation_alert: (data, context) => ({ ...appointmentVariables(data, context), dashboardUrl: appUrl('/dashboard') }),
+  customer_reply: ({ customerName, customerPhone, message }) => ({ customerName, customerPhone, message }),
+  payment_status: ({ salonName, amountPaid, status }) => ({ salonName, amountPaid: amountPaid.toFixed(2), status }),
+  salon_status: ({ salonName, status, reason }) => ({ salonName, status, reason }),
+};
+
+function isBlank(value: TemplateVariables[string]): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * Replace a template's placeholders and drop the sections whose value is empty
+ */
+export function fillTemplate(template: string, variables: TemplateVariables): string {
+  return template
+    .replace(SECTION, (_, name: string, inner: string) => (isBlank(variables[name]) ? '' : inner))
+    .replace(PLACEHOLDER, (_, name: string) => (isBlank(variables[name]) ? '' : String(variables[name])));
+}
+
+/**
+ * Problems with a template's placeholders for a notification type; empty when it is fine
+ */
+export function templateErrors(type: NotificationType, template: string): string[] {
+  const errors: string[] = [];
+
+  const used = [
+    ...Array.from(template.matchAll(SECTION), match => match[1]),
+    ...Array.from(template.matchAll(PLACEHOLDER), match => match[1]),
+  ];
+  const unknown = [...new Set(used)].filter(name => !TEMPLATE_PLACEHOLDERS[type].includes(name));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholders: ${unknown.join(', ')}`);
+  }
+
+  // Take out complete sections, keeping any section tags nested inside them
+  const outside = template.replace(SECTION, (_, __, inner: string) => inner.replace(/\{\{(?![#/])/g, ''));
+  if (/\{\{[#/]/.test(outside)) {
+    errors.push('Each {{#name}} section needs a matching {{/name}} and sections cannot be nested');
+  }
+
+  return errors;
+}
+
+/**
+ * Locales to look for a template in, most specific first: the recipient's,
+ * then the salon's, then the platform's. "fr-CA" also tries "fr".
+ */
+export function localeFallbacks(...preferred: (string | null | undefined)[]): string[] {
+  const locales: string[] = [];
+
+  for (const locale of [...preferred, DEFAULT_LOCALE]) {
+    if (!locale) continue;
+    for (const candidate of [locale, locale.split('-')[0]]) {
+      if (!locales.includes(candidate)) locales.push(candidate);
+    }
+  }
+
+  return locales;
+}
+
+/**
+ * The platform's wording for a notification type
+ */
+export function defaultTemplate(type: NotificationType): ResolvedTemplate {
+  return { locale: DEFAULT_LOCALE, ...DEFAULT_TEMPLATES[type], custom: false };
+}
+
+/**
+ * The wording to use for a notification: the salon's own template in the
+ * first locale it has one for, otherwise the platform default
+ */
+export async function findTemplate(
+  type: NotificationType,
+  salonId: string | undefined,
+  locales: string[]
+): Promise<ResolvedTemplate> {
+  const editable = (EDITABLE_TYPES as readonly NotificationType[]).includes(type);
+  const templates = salonId && editable
+    ? await prisma.messageTemplate.findMany({ where: { salonId, type, locale: { in: locales } } })
+    : [];
+
+  for (const locale of locales) {
+    const template = templates.find(t => t.locale === locale);
+    if (template) return { locale, subject: template.subject, body: template.body, custom: true };
+  }
+
+  return defaultTemplate(type);
+}
+
+/**
+ * Subject and text of a notification from a given template
+ */
+export function renderTemplate<T extends NotificationType>(
+  type: T,
+  template: MessageTemplateText,
+  data: NotificationData[T],
+  context: RenderContext
+): RenderedMessage {
+  const variables = variableBuilders[type](data, context);
+  return {
+    subject: fillTemplate(template.subject, variables),
+    body: fillTemplate(template.body, variables),
+  };
+}
+
+/**
+ * Dates are formatted in the most specific locale of the template's
+ * language, e.g. "en-AU" for an "en" template sent to an Australian salon
+ */
+export function formattingLocale(template: ResolvedTemplate, locales: string[]): string {
+  const language = template.locale.split('-')[0];
+  return locales.find(locale => locale.split('-')[0] === language) ?? template.locale;
+}
+
+/**
+ * Subject and text of a notification in the first of `locales` there is
+ * wording for, using the salon's own templates where it has them
+ */
+export async function renderMessage<T extends NotificationType>(
+  type: T,
+  data: NotificationData[T],
+  { salonId, bookingId, locales = [DEFAULT_LOCALE] }: { salonId?: string; bookingId?: string; locales?: string[] } = {}
+): Promise<RenderedMessage> {
+  const template = await findTemplate(type, salonId, locales);
+  return renderTemplate(type, template, data, { locale: formattingLocale(template, locales), bookingId });
+}
@@ -0,0 +1,85 @@
+import { NotificationPreferences, User } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { Channel, NotificationType } from './types.js';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  sms: true,
+  email: true,
+  whatsapp: true,
+  push: true,
+  reminders: true,
+  marketing: false,
+};
+
+// Transactional messages ignore preferences; the others need the matching one switched on
+export type NotificationCategory = 'transactional' | 'reminders' | 'marketing';
+
+export const NOTIFICATION_CATEGORIES: Record<NotificationType, NotificationCategory> = {
+  otp: 'transactional',
+  booking_confirmation: 'transactional',
+  booking_alert: 'transactional',
+  waitlist_offer: 'transactional',
+  appointment_reminder: 'reminders',
+  booking_cancellation: 'transactional',
+  review_request: 'reminders',
+  cancellation_alert: 'transactional',
+  customer_reply: 'transactional',
+  payment_status: 'transactional',
+  salon_status: 'transactional',
+};
+
+// Carrier opt-out and opt-in keywords (the ones Twilio also acts on)
+export const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE'];
+export const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'YES'];
+
+/**
+ * The user's notification preferences with defaults filled in
+ */
+export function notificationPreferences(
+  user: Pick<User, 'notificationPreferences'> | null | undefined
+): NotificationPreferences {
+  return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...user?.notificationPreferences };
+}
+
+/**
+ * Whether a user wants a notification type on a channel
+ */
+export function allowsNotification(
+  preferences: NotificationPreferences,
+  type: NotificationType,
+  channel: Channel
+): boolean {
+  const category = NOTIFICATION_CATEGORIES[type];
+  if (category === 'transactional') return true;
+
+  // The in-app feed has no switch of its own; it follows the category
+  return preferences[category] && (channel === 'in_app' || preferences[channel]);
+}
+
+/**
+ * Whether a phone number has opted out of SMS
+ */
+export async function isSmsOptedOut(phone: string): Promise<boolean> {
+  const optOut = await prisma.smsOptOut.findUnique({ where: { phone } });
+  return optOut !== null;
+}
+
+/**
+ * Stop sending SMS to a number that texted an opt-out keyword
+ */
+export async function recordSmsOptOut(phone: string, keyword: string): Promise<void> {
+  await prisma.smsOptOut.upsert({
+    where: { phone },
+    create: { phone, keyword },
+    update: { keyword },
+  });
+}
+
+/**
+ * Resume SMS to a number that texted an opt-in keyword.
+ * Returns whether the number had opted out.
+ */
+export async function clearSmsOptOut(phone: string): Promise<boolean> {
+  const { count } = await prisma.smsOptOut.deleteMany({ where: { phone } });
+  return count > 0;
+}
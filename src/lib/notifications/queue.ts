@@ -0,0 +1,207 @@
+import { OutboundMessage, OutboundMessageStatus } from '@prisma/client';
+import { prisma } from '../prisma.js';
+import { channelAdapter } from './transport.js';
+import { isSmsOptedOut } from './preferences.js';
+import { DeliveryChannel, NotificationType } from './types.js';
+
+// Attempts before a message is marked failed
+const MAX_ATTEMPTS = 6;
+// Wait after the first failure; doubles with every further attempt
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+// A message left 'sending' this long was cut off (e.g. by a restart) and is retried
+const STALE_SENDING_MS = 10 * 60000;
+const BATCH_SIZE = 100;
+// Bodies that shouldn't sit in the database once they are no longer needed
+const REDACTED_TYPES: NotificationType[] = ['otp'];
+// Tried once while the request waits, never retried: a late code is no use,
+// and its body shouldn't wait in the outbox
+const SINGLE_ATTEMPT_TYPES: NotificationType[] = ['otp'];
+
+const STATUS_RANK: Record<OutboundMessageStatus, number> = {
+  pending: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  failed: 3,
+  skipped: 3,
+};
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function retryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * The provider rejected the message itself (bad number, unsubscribed...), so retrying won't help
+ */
+function isPermanentError(err: any): boolean {
+  const status = err?.status ?? err?.statusCode;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 429;
+}
+
+/**
+ * Make one attempt at a pending message. Returns null when another worker got to it first.
+ */
+export async function deliverMessage(id: string): Promise<OutboundMessage | null> {
+  const { count } = await prisma.outboundMessage.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'sending', attempts: { increment: 1 } },
+  });
+  if (count === 0) return null;
+
+  const message = await prisma.outboundMessage.findUniqueOrThrow({ where: { id } });
+  const redact = REDACTED_TYPES.includes(message.type as NotificationType) && { body: '[redacted]' };
+
+  // Checked before every attempt: the number may have texted STOP since the message was queued
+  if (message.channel === 'sms' && await isSmsOptedOut(message.to)) {
+    return prisma.outboundMessage.update({
+      where: { id },
+      data: { status: 'skipped', lastError: 'Recipient opted out of SMS', ...redact },
+    });
+  }
+
+  try {
+    const { providerMessageId } = await channelAdapter(message.channel as DeliveryChannel).send({
+      channel: message.channel as DeliveryChannel,
+      type: message.type as NotificationType,
+      to: message.to,
+      from: message.from ?? undefined,
+      subject: message.subject,
+      body: message.body,
+      url: message.url ?? undefined,
+    });
+
+    return await prisma.outboundMessage.update({
+      where: { id },
+      data: {
+        status: 'sent',
+        sentAt: new Date(),
+        providerMessageId,
+        lastError: null,
+        ...redact,
+      },
+    });
+  } catch (err) {
+    const lastError = err instanceof Error ? err.message : String(err);
+    const giveUp = isPermanentError(err)
+      || message.attempts >= MAX_ATTEMPTS
+      || SINGLE_ATTEMPT_TYPES.includes(message.type as NotificationType);
+    console.error(`Notification ${message.type} via ${message.channel} failed (attempt ${message.attempts}):`, err);
+
+    return await prisma.outboundMessage.update({
+      where: { id },
+      data: giveUp
+        ? {
+          status: 'failed',
+          lastError,
+          ...redact,
+        }
+        : { status: 'pending', lastError, nextAttemptAt: new Date(Date.now() + retryDelayMs(message.attempts)) },
+    });
+  }
+}
+
+/**
+ * Send every message whose next attempt is due
+ */
+export async function deliverDueMessages() {
+  const now = new Date();
+  const stale = { status: 'sending' as const, updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } };
+
+  await prisma.outboundMessage.updateMany({
+    where: { ...stale, type: { notIn: SINGLE_ATTEMPT_TYPES } },
+    data: { status: 'pending' },
+  });
+  await prisma.outboundMessage.updateMany({
+    where: { ...stale, type: { in: SINGLE_ATTEMPT_TYPES } },
+    data: { status: 'failed', lastError: 'Interrupted while sending', body: '[redacted]' },
+  });
+
+  const due = await prisma.outboundMessage.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: BATCH_SIZE,
+    select: { id: true },
+  });
+  if (due.length === 0) return null;
+
+  const totals = { attempted: 0, sent: 0, retrying: 0, skipped: 0, failed: 0 };
+
+  for (const { id } of due) {
+    const message = await deliverMessage(id);
+    if (!message) continue;
+
+    totals.attempted++;
+    if (message.status === 'sent') totals.sent++;
+    else if (message.status === 'pending') totals.retrying++;
+    else if (message.status === 'skipped') totals.skipped++;
+    else totals.failed++;
+  }
+
+  return totals;
+}
+
+/**
+ * Put a failed message back in the queue and try it straight away.
+ * Redacted messages have nothing left to resend.
+ */
+export async function resendMessage(id: string): Promise<OutboundMessage | null> {
+  const { count } = await prisma.outboundMessage.updateMany({
+    where: { id, status: 'failed', type: { notIn: REDACTED_TYPES } },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: new Date() },
+  });
+  if (count === 0) return null;
+
+  return deliverMessage(id);
+}
+
+/**
+ * Our status for a Twilio message status
+ */
+function statusFromProvider(providerStatus: string): OutboundMessageStatus | null {
+  switch (providerStatus) {
+    case 'queued':
+    case 'accepted':
+    case 'sending':
+    case 'sent':
+      return 'sent';
+    case 'delivered':
+    case 'read':
+      return 'delivered';
+    case 'undelivered':
+    case 'failed':
+      return 'failed';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Record a delivery report from the provider. Reports can arrive out of
+ * order, so a message never moves back to an earlier status.
+ */
+export async function recordProviderStatus(
+  providerMessageId: string,
+  providerStatus: string,
+  errorCode?: string
+): Promise<OutboundMessage | null> {
+  const message = await prisma.outboundMessage.findFirst({ where: { providerMessageId } });
+  if (!message) return null;
+
+  const status = statusFromProvider(providerStatus);
+  const advance = status !== null && STATUS_RANK[status] > STATUS_RANK[message.status];
+
+  return prisma.outboundMessage.update({
+    where: { id: message.id },
+    data: {
+      providerStatus,
+      ...(advance && { status: status! }),
+      ...(advance && status === 'delivered' && { deliveredAt: new Date() }),
+      ...(advance && status === 'failed' && {
+        lastError: `Provider reported ${providerStatus}${errorCode ? ` (error ${errorCode})` : ''}`,
+      }),
+    },
+  });
+}
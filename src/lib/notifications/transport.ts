@@ -0,0 +1,31 @@
+import { emailChannel } from './channels/email.js';
+import { outboxChannel } from './channels/outbox.js';
+import { pushChannel } from './channels/push.js';
+import { smsChannel } from './channels/sms.js';
+import { whatsAppChannel } from './channels/whatsapp.js';
+import { ChannelAdapter, DeliveryChannel } from './types.js';
+
+const liveChannels: Record<DeliveryChannel, ChannelAdapter> = {
+  sms: smsChannel,
+  email: emailChannel,
+  whatsapp: whatsAppChannel,
+  push: pushChannel,
+};
+
+/**
+ * Whether messages go to the dev/test outbox instead of real providers.
+ * NOTIFICATION_TRANSPORT=outbox|live wins; otherwise development and test use the outbox.
+ */
+function useOutbox(): boolean {
+  if (process.env.NOTIFICATION_TRANSPORT) {
+    return process.env.NOTIFICATION_TRANSPORT === 'outbox';
+  }
+  return process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * The adapter that delivers a channel's messages
+ */
+export function channelAdapter(channel: DeliveryChannel): ChannelAdapter {
+  return useOutbox() ? outboxChannel : liveChannels[channel];
+}
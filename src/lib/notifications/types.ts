@@ -0,0 +1,69 @@
+// Channels delivered through an outside provider (via the outbox)
+export type DeliveryChannel = 'sms' | 'email' | 'whatsapp' | 'push';
+// 'in_app' writes straight to the user's notification feed
+export type Channel = DeliveryChannel | 'in_app';
+
+export interface AppointmentData {
+  customerName: string;
+  dateTime: Date | string;
+  // IANA timezone the time is shown in (the salon's)
+  timeZone: string;
+  salonName: string;
+  // Services of the visit, e.g. "Cut, Colour"
+  serviceName?: string;
+  staffName?: string | null;
+}
+
+// Data each notification type is rendered from
+export interface NotificationData {
+  otp: { otp: string };
+  booking_confirmation: AppointmentData;
+  // Tells the salon about a new booking
+  booking_alert: AppointmentData;
+  waitlist_offer: AppointmentData & { holdMinutes: number };
+  appointment_reminder: AppointmentData;
+  booking_cancellation: AppointmentData;
+  // Asks the customer to rate a completed visit; the token signs the review link
+  review_request: AppointmentData & { reviewToken: string };
+  // Tells the salon about a cancelled booking
+  cancellation_alert: AppointmentData;
+  // A customer's SMS reply passed on to the salon
+  customer_reply: { customerName: string; customerPhone: string; message: string };
+  // A subscription payment the platform verified or rejected
+  payment_status: { salonName: string; amountPaid: number; status: 'verified' | 'rejected' };
+  // The platform approved, rejected or suspended a salon
+  salon_status: { salonName: string; status: 'approved' | 'rejected' | 'suspended'; reason?: string };
+}
+
+export type NotificationType = keyof NotificationData;
+
+export interface Recipient {
+  userId?: string;
+  phone?: string | null;
+  email?: string | null;
+  locale?: string | null;
+}
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
+
+export interface OutgoingMessage extends RenderedMessage {
+  channel: DeliveryChannel;
+  type: NotificationType;
+  // Phone number, email address or (for push) user id
+  to: string;
+  // Sender override, e.g. the salon's WhatsApp number
+  from?: string;
+  // Where the notification opens, for channels that support links
+  url?: string;
+}
+
+export interface SendResult {
+  providerMessageId?: string;
+}
+
+export interface ChannelAdapter {
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
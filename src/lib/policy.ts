@@ -0,0 +1,91 @@
+import { Booking, BookingPolicy, Prisma, Salon } from '@prisma/client';
+import { createError } from '../middleware/errorHandler.js';
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  minCancelNoticeHours: 0,
+  minRescheduleNoticeHours: 0,
+  maxReschedules: null,
+  lateCancelOutcome: 'block',
+};
+
+export interface CancellationVerdict {
+  late: boolean;
+  status: 'cancelled' | 'no_show';
+}
+
+/**
+ * The salon's booking policy with defaults filled in
+ */
+export function bookingPolicy(salon: Pick<Salon, 'bookingPolicy'>): BookingPolicy {
+  return { ...DEFAULT_BOOKING_POLICY, ...salon.bookingPolicy };
+}
+
+function hoursUntil(date: Date): number {
+  return (date.getTime() - Date.now()) / (60 * 60000);
+}
+
+/**
+ * Decide what a cancellation does under the policy. Throws when a late
+ * cancellation is refused outright.
+ */
+export function evaluateCancellation(policy: BookingPolicy, booking: Pick<Booking, 'startTime'>): CancellationVerdict {
+  if (hoursUntil(booking.startTime) >= policy.minCancelNoticeHours) {
+    return { late: false, status: 'cancelled' };
+  }
+
+  if (policy.lateCancelOutcome === 'block') {
+    throw createError(
+      `Cancellations require at least ${policy.minCancelNoticeHours} hours notice`,
+      400,
+      'CANCELLATION_TOO_LATE'
+    );
+  }
+
+  return { late: true, status: policy.lateCancelOutcome === 'no_show' ? 'no_show' : 'cancelled' };
+}
+
+/**
+ * Throw unless the policy allows the booking to be rescheduled
+ */
+export function assertCanReschedule(
+  policy: BookingPolicy,
+  booking: Pick<Booking, 'startTime' | 'rescheduleCount'>
+): void {
+  if (hoursUntil(booking.startTime) < policy.minRescheduleNoticeHours) {
+    throw createError(
+      `Rescheduling requires at least ${policy.minRescheduleNoticeHours} hours notice`,
+      400,
+      'RESCHEDULE_TOO_LATE'
+    );
+  }
+
+  if (policy.maxReschedules !== null && booking.rescheduleCount >= policy.maxReschedules) {
+    throw createError(
+      `This booking has already been rescheduled ${booking.rescheduleCount} times`,
+      400,
+      'RESCHEDULE_LIMIT_REACHED'
+    );
+  }
+}
+
+export interface PolicyOverride {
+  // Staff member bypassing the policy
+  actorId: string;
+  reason: string;
+  details?: Prisma.InputJsonObject;
+}
+
+/**
+ * Record a staff member bypassing the booking policy. Runs inside the
+ * transaction of the change it allows, so neither is kept without the other.
+ */
+export async function recordPolicyOverride(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  action: 'cancel' | 'reschedule',
+  { actorId, reason, details }: PolicyOverride
+): Promise<void> {
+  await tx.bookingAuditLog.create({
+    data: { bookingId, actorId, action, reason, details },
+  });
+}
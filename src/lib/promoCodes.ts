@@ -0,0 +1,146 @@
+import { BookingItem, Prisma, PromoCode } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { createError } from '../middleware/errorHandler.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface PromoContext {
+  userId: string;
+  // Calendar date key of the appointment (its weekday is the salon-local one)
+  bookingDate: Date;
+  items: Pick<BookingItem, 'serviceId' | 'price'>[];
+  // When the booking is made; the code's startsAt/endsAt are checked against it
+  now?: Date;
+}
+
+export interface PromoDiscount {
+  originalPrice: number;
+  discountAmount: number;
+  totalPrice: number;
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Codes are matched without regard to case or surrounding spaces
+ */
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * The code a customer entered at a salon: the salon's own code, or else a
+ * platform-wide one with the same name
+ */
+export async function findPromoCode(code: string, salonId: string, db: Db = prisma): Promise<PromoCode> {
+  const candidates = await db.promoCode.findMany({
+    where: { code: normalizeCode(code), OR: [{ salonId }, { salonId: null }] },
+  });
+
+  const promo = candidates.find(p => p.salonId === salonId) ?? candidates[0];
+  if (!promo) throw createError('Promo code not found', 404, 'PROMO_NOT_FOUND');
+
+  return promo;
+}
+
+/**
+ * Check a code applies to a booking and work out the discount. Only the
+ * services the code covers are discounted, and never below zero. The validity
+ * window is about when the code is redeemed, so a code can be used before it
+ * ends for an appointment after; the weekdays are those of the appointment.
+ */
+export async function evaluatePromoCode(
+  promo: PromoCode,
+  { userId, bookingDate, items, now = new Date() }: PromoContext,
+  db: Db = prisma
+): Promise<PromoDiscount> {
+  if (!promo.isActive) {
+    throw createError('This promo code is no longer active', 400, 'PROMO_INACTIVE');
+  }
+  if ((promo.startsAt && now < promo.startsAt) || (promo.endsAt && now > promo.endsAt)) {
+    throw createError('This promo code is not valid right now', 400, 'PROMO_EXPIRED');
+  }
+  if (promo.maxRedemptions !== null && promo.redemptionCount >= promo.maxRedemptions) {
+    throw createError('This promo code has been used up', 400, 'PROMO_USED_UP');
+  }
+  if (promo.daysOfWeek.length > 0 && !promo.daysOfWeek.includes(bookingDate.getUTCDay())) {
+    throw createError('This promo code is not valid on the day of your appointment', 400, 'PROMO_WRONG_DAY');
+  }
+
+  const eligible = items.filter(item => promo.serviceIds.length === 0 || promo.serviceIds.includes(item.serviceId));
+  if (eligible.length === 0) {
+    throw createError('This promo code does not apply to the chosen services', 400, 'PROMO_NOT_APPLICABLE');
+  }
+
+  // Checked again when the use is claimed; this only fails early
+  if (promo.maxRedemptionsPerUser !== null) {
+    const usage = await db.promoCodeUsage.findUnique({
+      where: { promoCodeId_userId: { promoCodeId: promo.id, userId } },
+    });
+    if ((usage?.count ?? 0) >= promo.maxRedemptionsPerUser) {
+      throw createError('You have already used this promo code', 400, 'PROMO_USER_LIMIT');
+    }
+  }
+
+  const originalPrice = roundMoney(items.reduce((sum, item) => sum + item.price, 0));
+  const eligibleTotal = eligible.reduce((sum, item) => sum + item.price, 0);
+  const discountAmount = roundMoney(Math.min(
+    eligibleTotal,
+    promo.discountType === 'percentage' ? (eligibleTotal * promo.discountValue) / 100 : promo.discountValue
+  ));
+
+  return { originalPrice, discountAmount, totalPrice: roundMoney(originalPrice - discountAmount) };
+}
+
+/**
+ * Count a use of the code, overall and for the customer, failing if the last
+ * one was taken in the meantime. Runs inside the booking transaction.
+ */
+export async function claimPromoCode(tx: Prisma.TransactionClient, promo: PromoCode, userId: string): Promise<void> {
+  const { count } = await tx.promoCode.updateMany({
+    where: {
+      id: promo.id,
+      ...(promo.maxRedemptions !== null && { redemptionCount: { lt: promo.maxRedemptions } }),
+    },
+    data: { redemptionCount: { increment: 1 } },
+  });
+
+  if (count === 0) throw createError('This promo code has been used up', 400, 'PROMO_USED_UP');
+
+  const key = { promoCodeId: promo.id, userId };
+  await tx.promoCodeUsage.upsert({
+    where: { promoCodeId_userId: key },
+    create: key,
+    update: {},
+  });
+
+  const claimed = await tx.promoCodeUsage.updateMany({
+    where: {
+      ...key,
+      ...(promo.maxRedemptionsPerUser !== null && { count: { lt: promo.maxRedemptionsPerUser } }),
+    },
+    data: { count: { increment: 1 } },
+  });
+
+  if (claimed.count === 0) throw createError('You have already used this promo code', 400, 'PROMO_USER_LIMIT');
+}
+
+/**
+ * Give back the use of a code when its booking is cancelled
+ */
+export async function releasePromoRedemption(tx: Prisma.TransactionClient, bookingId: string): Promise<void> {
+  const redemption = await tx.promoRedemption.findUnique({ where: { bookingId } });
+  if (!redemption) return;
+
+  await tx.promoRedemption.delete({ where: { id: redemption.id } });
+  await tx.promoCode.update({
+    where: { id: redemption.promoCodeId },
+    data: { redemptionCount: { decrement: 1 } },
+  });
+  await tx.promoCodeUsage.updateMany({
+    where: { promoCodeId: redemption.promoCodeId, userId: redemption.userId, count: { gt: 0 } },
+    data: { count: { decrement: 1 } },
+  });
+}
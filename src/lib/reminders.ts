@@ -0,0 +1,96 @@
+import { Booking } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { notify } from './notifications/index.js';
+import { appointmentData } from './bookings.js';
+
+const HOUR_MS = 60 * 60000;
+
+/**
+ * The reminder offset that is due for a booking right now, if any.
+ * Only the closest due offset is sent, so a booking made at short notice
+ * gets one reminder rather than every one it has already passed.
+ */
+export function dueReminderOffset(
+  booking: Pick<Booking, 'startTime' | 'createdAt' | 'reminders'>,
+  offsetsHours: number[],
+  now: Date = new Date()
+): number | null {
+  const start = booking.startTime.getTime();
+  if (start <= now.getTime()) return null;
+
+  const due = offsetsHours
+    .filter(offset => now.getTime() >= start - offset * HOUR_MS)
+    // Booked after this reminder would have gone out; the confirmation covers it
+    .filter(offset => booking.createdAt.getTime() < start - offset * HOUR_MS)
+    .sort((a, b) => a - b);
+  if (due.length === 0) return null;
+
+  // Reminders sent before a reschedule were for the old time and don't count
+  const sent = booking.reminders.filter(r => r.startTime.getTime() === start);
+  if (sent.some(r => r.offsetHours <= due[0])) return null;
+
+  return due[0];
+}
+
+/**
+ * Send reminder SMS that have come due for booked appointments.
+ * Cancelled and completed bookings are skipped by status; rescheduled ones
+ * are reminded against their new time.
+ */
+export async function sendDueReminders() {
+  const salons = await prisma.salon.findMany({
+    where: { status: 'approved', reminderOffsetsHours: { isEmpty: false } },
+    select: { id: true, name: true, timezone: true, reminderOffsetsHours: true },
+  });
+
+  const now = new Date();
+  let sent = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const salon of salons) {
+    const horizon = new Date(now.getTime() + Math.max(...salon.reminderOffsetsHours) * HOUR_MS);
+
+    const bookings = await prisma.booking.findMany({
+      where: { salonId: salon.id, status: 'booked', startTime: { gt: now, lte: horizon } },
+      include: {
+        user: { select: { fullName: true, phone: true, email: true } },
+        service: { select: { name: true } },
+        staff: { select: { fullName: true } },
+      },
+    });
+
+    for (const booking of bookings) {
+      const offsetHours = dueReminderOffset(booking, salon.reminderOffsetsHours, now);
+      if (offsetHours === null) continue;
+
+      const results = await notify({
+        type: 'appointment_reminder',
+        recipient: { userId: booking.userId, phone: booking.user.phone, email: booking.user.email },
+        data: appointmentData(booking, salon, booking.user.fullName),
+        salonId: salon.id,
+        bookingId: booking.id,
+      });
+
+      // Customers who turned reminders off (or can't be reached) aren't failures
+      if (results.every(r => r.status === 'skipped')) {
+        skipped++;
+        continue;
+      }
+
+      // Try again on the next run unless some channel got through (or is queued for retry)
+      if (!results.some(r => r.status === 'sent' || r.status === 'queued')) {
+        failed++;
+        continue;
+      }
+
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: { reminders: { push: { offsetHours, startTime: booking.startTime, sentAt: new Date() } } },
+      });
+      sent++;
+    }
+  }
+
+  return { salons: salons.length, sent, skipped, failed };
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { Booking, Prisma, Review } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { createError } from '../middleware/errorHandler.js';
+import { notify } from './notifications/index.js';
+import { appointmentData } from './bookings.js';
+
+const HOUR_MS = 60 * 60000;
+const DAY_MS = 24 * HOUR_MS;
+// How long a review link in a review request works for
+const REVIEW_LINK_TTL_MS = 30 * DAY_MS;
+// Visits completed longer ago than this are never asked about (e.g. when a salon turns requests on)
+const MAX_REQUEST_AGE_MS = 7 * DAY_MS;
+
+export interface ReviewInput {
+  rating: number;
+  staffRating?: number;
+  comment?: string;
+}
+
+/**
+ * Recalculate a salon's average rating and review count from its visible reviews
+ */
+export async function refreshSalonRating(salonId: string): Promise<void> {
+  const { _avg, _count } = await prisma.review.aggregate({
+    where: { salonId, status: 'visible' },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  await prisma.salon.update({
+    where: { id: salonId },
+    data: {
+      ratingAverage: _avg.rating === null ? null : Math.round(_avg.rating * 100) / 100,
+      reviewCount: _count._all,
+    },
+  });
+}
+
+/**
+ * Leave the customer's review of a completed booking. A booking can only be reviewed once.
+ */
+export async function createReview(booking: Booking, { rating, staffRating, comment }: ReviewInput): Promise<Review> {
+  if (booking.status !== 'completed') {
+    throw createError('Only completed bookings can be reviewed', 400, 'BOOKING_NOT_COMPLETED');
+  }
+  if (staffRating !== undefined && !booking.staffId) {
+    throw createError('This booking had no staff member to rate', 400);
+  }
+
+  let review: Review;
+  try {
+    review = await prisma.review.create({
+      data: {
+        bookingId: booking.id,
+        salonId: booking.salonId,
+        userId: booking.userId,
+        staffId: booking.staffId,
+        rating,
+        staffRating,
+        comment,
+      },
+    });
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw createError('This booking has already been reviewed', 409, 'ALREADY_REVIEWED');
+    }
+    throw err;
+  }
+
+  await refreshSalonRating(booking.salonId);
+
+  return review;
+}
+
+function reviewLinkSignature(payload: string): string {
+  return crypto
+    .createHmac('sha256', process.env.JWT_SECRET!)
+    .update(`review-request:${payload}`)
+    .digest('base64url');
+}
+
+/**
+ * Signed token that lets the customer review a booking without logging in.
+ * Deliberately not a JWT, so it can never pass as a login token.
+ */
+export function reviewRequestToken(bookingId: string, now: Date = new Date()): string {
+  const payload = `${bookingId}.${Math.floor((now.getTime() + REVIEW_LINK_TTL_MS) / 1000)}`;
+  return `${payload}.${reviewLinkSignature(payload)}`;
+}
+
+/**
+ * The booking id of a review token, or null if it is forged or expired.
+ * Tokens are single use because a booking can only be reviewed once.
+ */
+export function verifyReviewRequestToken(token: string, now: Date = new Date()): string | null {
+  const [bookingId, expires, signature] = token.split('.');
+  if (!bookingId || !expires || !signature || !/^[0-9a-fA-F]{24}$/.test(bookingId)) return null;
+
+  const expected = Buffer.from(reviewLinkSignature(`${bookingId}.${expires}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  return Number(expires) * 1000 > now.getTime() ? bookingId : null;
+}
+
+/**
+ * Ask customers to review visits completed the salon's delay ago.
+ * Each booking is claimed before its message goes out, so no customer is
+ * asked twice about the same visit, even if the message then fails.
+ */
+export async function sendDueReviewRequests() {
+  const salons = await prisma.salon.findMany({
+    where: { status: 'approved', reviewRequestDelayHours: { not: null } },
+    select: { id: true, name: true, timezone: true, reviewRequestDelayHours: true },
+  });
+
+  const now = new Date();
+  let sent = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const salon of salons) {
+    const dueBy = new Date(now.getTime() - salon.reviewRequestDelayHours! * HOUR_MS);
+
+    const bookings = await prisma.booking.findMany({
+      where: {
+        salonId: salon.id,
+        status: 'completed',
+        reviewRequestedAt: null,
+        completedAt: { lte: dueBy, gt: new Date(dueBy.getTime() - MAX_REQUEST_AGE_MS) },
+        // Reviewed in the app already
+        review: { is: null },
+      },
+      include: {
+        user: { select: { fullName: true, phone: true, email: true } },
+        service: { select: { name: true } },
+        staff: { select: { fullName: true } },
+      },
+    });
+
+    for (const booking of bookings) {
+      const { count } = await prisma.booking.updateMany({
+        where: { id: booking.id, reviewRequestedAt: null },
+        data: { reviewRequestedAt: new Date() },
+      });
+      if (count === 0) continue;
+
+      const results = await notify({
+        type: 'review_request',
+        recipient: { userId: booking.userId, phone: booking.user.phone, email: booking.user.email },
+        data: {
+          ...appointmentData(booking, salon, booking.user.fullName),
+          reviewToken: reviewRequestToken(booking.id, now),
+        },
+        salonId: salon.id,
+        bookingId: booking.id,
+      });
+
+      if (results.every(r => r.status === 'skipped')) skipped++;
+      else if (results.some(r => r.status === 'sent' || r.status === 'queued')) sent++;
+      else failed++;
+    }
+  }
+
+  return { salons: salons.length, sent, skipped, failed };
+}
@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { Booking, Prisma, SalonEvent } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { bookingSlotIds } from './slots.js';
+
+export type SalonEventType =
+  | 'booking.created'
+  | 'booking.updated'
+  | 'booking.cancelled'
+  | 'booking.in_progress'
+  | 'booking.completed'
+  | 'booking.no_show'
+  | 'slot.capacity';
+
+// How long events can be replayed for
+const EVENT_RETENTION_MS = 24 * 60 * 60000;
+const PAGE_SIZE = 100;
+// Tries at recording an event when other events of the salon are written at the same time
+const MAX_WRITE_ATTEMPTS = 5;
+
+// Tells this instance's open streams that a salon has a new event
+const published = new EventEmitter();
+published.setMaxListeners(0);
+
+/**
+ * Record a salon event and wake up this instance's streams for the salon.
+ * Failures are logged rather than thrown; a missed dashboard update must
+ * not fail the booking that caused it.
+ */
+export function publishSalonEvent(salonId: string, type: SalonEventType, data: Prisma.InputJsonObject): void {
+  recordSalonEvent(salonId, type, data)
+    .then(() => published.emit(salonId))
+    .catch(err => console.error('Salon event failed:', err));
+}
+
+/**
+ * Store an event under the salon's next sequence number. The counter is bumped
+ * in the same transaction as the insert, so a concurrent event waits (or
+ * retries) rather than committing out of order, and streams that have read up
+ * to a sequence number can never miss a lower one committed later.
+ */
+async function recordSalonEvent(salonId: string, type: SalonEventType, data: Prisma.InputJsonObject): Promise<SalonEvent> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { value } = await tx.salonEventCounter.upsert({
+          where: { salonId },
+          create: { salonId, value: 1 },
+          update: { value: { increment: 1 } },
+        });
+
+        return tx.salonEvent.create({ data: { salonId, sequence: value, type, data } });
+      });
+    } catch (err) {
+      // P2034: write conflict with another event of the salon;
+      // P2002: both creating the salon's counter for its first event
+      const conflict = err instanceof Prisma.PrismaClientKnownRequestError && ['P2034', 'P2002'].includes(err.code);
+      if (!conflict || attempt >= MAX_WRITE_ATTEMPTS) throw err;
+      await new Promise(resolve => setTimeout(resolve, attempt * 20 + Math.random() * 20));
+    }
+  }
+}
+
+/**
+ * Publish a booking's change, named after its status unless given
+ */
+export function publishBookingEvent(
+  booking: Booking,
+  type: SalonEventType = `booking.${booking.status}` as SalonEventType
+): void {
+  publishSalonEvent(booking.salonId, type, {
+    bookingId: booking.id,
+    userId: booking.userId,
+    status: booking.status,
+    serviceId: booking.serviceId,
+    staffId: booking.staffId,
+    slotIds: bookingSlotIds(booking),
+    bookingDate: booking.bookingDate.toISOString(),
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+  });
+}
+
+/**
+ * Publish the current places left in the given slots
+ */
+export function publishSlotCapacity(salonId: string, slotIds: string[]): void {
+  if (slotIds.length === 0) return;
+
+  prisma.slot.findMany({ where: { id: { in: slotIds } } })
+    .then(slots => publishSalonEvent(salonId, 'slot.capacity', {
+      slots: slots.map(slot => ({
+        slotId: slot.id,
+        date: slot.date.toISOString(),
+        startTime: slot.startTime.toISOString(),
+        endTime: slot.endTime.toISOString(),
+        capacity: slot.capacity,
+        bookedCount: slot.bookedCount,
+        available: slot.capacity - slot.bookedCount,
+      })),
+    }))
+    .catch(err => console.error('Salon event failed:', err));
+}
+
+/**
+ * Listen for new events of a salon published on this instance.
+ * Returns a function that stops listening.
+ */
+export function onSalonEvent(salonId: string, listener: () => void): () => void {
+  published.on(salonId, listener);
+  return () => published.off(salonId, listener);
+}
+
+/**
+ * The sequence number of a salon's latest event, where a new stream starts from
+ */
+export async function latestSalonEventSequence(salonId: string): Promise<number> {
+  const counter = await prisma.salonEventCounter.findUnique({ where: { salonId } });
+  return counter?.value ?? 0;
+}
+
+/**
+ * Whether a sequence number can still be resumed from
+ */
+export async function salonEventExists(salonId: string, sequence: number): Promise<boolean> {
+  const event = await prisma.salonEvent.findUnique({
+    where: { salonId_sequence: { salonId, sequence } },
+    select: { id: true },
+  });
+  return event !== null;
+}
+
+/**
+ * A salon's events after the given sequence number, oldest first
+ */
+export function salonEventsAfter(salonId: string, sequence: number): Promise<SalonEvent[]> {
+  return prisma.salonEvent.findMany({
+    where: { salonId, sequence: { gt: sequence } },
+    orderBy: { sequence: 'asc' },
+    take: PAGE_SIZE,
+  });
+}
+
+/**
+ * Drop events too old to be replayed
+ */
+export async function pruneSalonEvents() {
+  const { count } = await prisma.salonEvent.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - EVENT_RETENTION_MS) } },
+  });
+
+  return count > 0 ? { deleted: count } : null;
+}
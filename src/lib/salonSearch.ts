@@ -0,0 +1,183 @@
+import { Slot } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { slotLocalTimes, slotStartDateTime } from './slots.js';
+import { toDateKey, zonedParts } from './time.js';
+import { toMinutes } from './hours.js';
+import { displayPrice } from './catalogue.js';
+
+export interface AvailabilitySearch {
+  // Matched against service names and descriptions
+  service?: string;
+  // Matched against the names of the salons' service categories
+  category?: string;
+  city?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  // Calendar days "YYYY-MM-DD" to look on, inclusive
+  dateFrom: string;
+  dateTo: string;
+  // Local "HH:mm" window free times must start in, inclusive
+  timeFrom?: string;
+  timeTo?: string;
+  // Free times returned per salon
+  timesPerSalon: number;
+}
+
+type SlotTimes = Pick<Slot, 'id' | 'date' | 'startTime' | 'endTime' | 'capacity' | 'bookedCount'>;
+
+/**
+ * Whether a service of `durationMinutes` can start in the slot at `index`:
+ * it and the consecutive slots the service runs into all have places left
+ */
+export function isSpanFree(slots: SlotTimes[], index: number, durationMinutes: number): boolean {
+  const spanEnd = slots[index].startTime.getTime() + durationMinutes * 60000;
+
+  let cursor = slots[index].startTime.getTime();
+  for (let i = index; i < slots.length && cursor < spanEnd; i++) {
+    const slot = slots[i];
+    if (slot.startTime.getTime() !== cursor || slot.bookedCount >= slot.capacity) return false;
+    cursor = slot.endTime.getTime();
+  }
+
+  return cursor >= spanEnd;
+}
+
+/**
+ * Calendar day keys from one date to another, inclusive
+ */
+function dateKeys(from: string, to: string): Date[] {
+  const keys: Date[] = [];
+  for (let day = toDateKey(from); day <= toDateKey(to); day = new Date(day.getTime() + 24 * 60 * 60000)) {
+    keys.push(day);
+  }
+  return keys;
+}
+
+// Salons considered per search, best rated first; keeps a broad search cheap
+export const MAX_SEARCH_SALONS = 200;
+
+/**
+ * Approved salons with a matching active service that can still be booked in
+ * the date/time window, each with its earliest free times (and which of the
+ * matching services fit at each). Salons with the soonest opening come first.
+ * At most MAX_SEARCH_SALONS matching salons are looked at.
+ */
+export async function searchAvailableSalons(search: AvailabilitySearch, now: Date = new Date()) {
+  const serviceWhere = {
+    isActive: true,
+    ...(search.service && {
+      OR: [
+        { name: { contains: search.service, mode: 'insensitive' as const } },
+        { description: { contains: search.service, mode: 'insensitive' as const } },
+      ],
+    }),
+    ...(search.category && {
+      category: { is: { name: { contains: search.category, mode: 'insensitive' as const } } },
+    }),
+    ...((search.minPrice !== undefined || search.maxPrice !== undefined) && {
+      price: { gte: search.minPrice, lte: search.maxPrice },
+    }),
+  };
+
+  const salons = await prisma.salon.findMany({
+    where: {
+      status: 'approved',
+      ...(search.city && { city: { contains: search.city, mode: 'insensitive' as const } }),
+      services: { some: serviceWhere },
+    },
+    orderBy: [{ ratingAverage: 'desc' }, { reviewCount: 'desc' }],
+    take: MAX_SEARCH_SALONS,
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      address: true,
+      city: true,
+      imageUrl: true,
+      timezone: true,
+      latitude: true,
+      longitude: true,
+      ratingAverage: true,
+      reviewCount: true,
+    },
+  });
+  if (salons.length === 0) return [];
+
+  const salonIds = salons.map(s => s.id);
+
+  const [services, slots] = await Promise.all([
+    prisma.service.findMany({
+      where: { ...serviceWhere, salonId: { in: salonIds } },
+      select: { id: true, salonId: true, name: true, price: true, showPrice: true, durationMinutes: true, variants: true },
+    }),
+    // Full slots are left out; a gap where one was stops any span running through it
+    prisma.slot.findMany({
+      where: {
+        salonId: { in: salonIds },
+        date: { in: dateKeys(search.dateFrom, search.dateTo) },
+        bookedCount: { lt: prisma.slot.fields.capacity },
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }],
+      select: { id: true, salonId: true, date: true, startTime: true, endTime: true, capacity: true, bookedCount: true },
+    }),
+  ]);
+
+  // Each salon's slots by day; services only run on within a day, so days are checked on their own
+  const slotsBySalon = new Map<string, Map<number, SlotTimes[]>>();
+  for (const slot of slots) {
+    const days = slotsBySalon.get(slot.salonId) ?? new Map<number, SlotTimes[]>();
+    const day = days.get(slot.date.getTime()) ?? [];
+    day.push(slot);
+    days.set(slot.date.getTime(), day);
+    slotsBySalon.set(slot.salonId, days);
+  }
+
+  const windowStart = search.timeFrom ? toMinutes(search.timeFrom) : 0;
+  const windowEnd = search.timeTo ? toMinutes(search.timeTo) : 24 * 60;
+
+  const results = salons.map(salon => {
+    const salonServices = services.filter(s => s.salonId === salon.id);
+    const freeTimes = [];
+
+    for (const daySlots of slotsBySalon.get(salon.id)?.values() ?? []) {
+      for (let i = 0; i < daySlots.length && freeTimes.length < search.timesPerSalon; i++) {
+        const slot = daySlots[i];
+        const startsAt = slotStartDateTime(slot, salon.timezone);
+        if (startsAt <= now) continue;
+
+        const { minutes } = zonedParts(startsAt, salon.timezone);
+        if (minutes < windowStart || minutes > windowEnd) continue;
+
+        const fitting = salonServices.filter(s => isSpanFree(daySlots, i, s.durationMinutes));
+        if (fitting.length === 0) continue;
+
+        freeTimes.push({
+          slotId: slot.id,
+          date: slot.date.toISOString().split('T')[0],
+          startTime: slotLocalTimes(slot, salon.timezone).startTime,
+          startsAt,
+          serviceIds: fitting.map(s => s.id),
+        });
+      }
+    }
+
+    return {
+      salon,
+      services: salonServices.map(service => ({
+        id: service.id,
+        name: service.name,
+        durationMinutes: service.durationMinutes,
+        displayPrice: displayPrice(service),
+        variants: service.variants.map(({ price, ...variant }) => ({
+          ...variant,
+          price: service.showPrice ? price : undefined,
+        })),
+      })),
+      freeTimes,
+    };
+  });
+
+  return results
+    .filter(result => result.freeTimes.length > 0)
+    .sort((a, b) => a.freeTimes[0].startsAt.getTime() - b.freeTimes[0].startsAt.getTime());
+}
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import os from 'os';
+import { JobRun, Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+
+export interface Job {
+  name: string;
+  intervalMs: number;
+  // How long the lock outlives an instance that dies mid-run
+  lockTtlMs: number;
+  // Returns a summary stored on the job run, or null when there was nothing
+  // to do (frequent jobs would otherwise flood the run history)
+  run: () => Promise<Prisma.InputJsonObject | void | null>;
+}
+
+/**
+ * Thrown by a job that partly failed, keeping the summary of what it did
+ */
+export class JobFailure extends Error {
+  constructor(message: string, public details: Prisma.InputJsonObject) {
+    super(message);
+  }
+}
+
+// Identifies this server process in locks and job runs
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+// Delay before the first run so startup isn't slowed down
+const INITIAL_DELAY_MS = 10 * 1000;
+
+const jobs = new Map<string, Job>();
+
+/**
+ * Add a job to the scheduler
+ */
+export function registerJob(job: Job): void {
+  jobs.set(job.name, job);
+}
+
+/**
+ * Registered jobs
+ */
+export function listJobs(): Job[] {
+  return [...jobs.values()];
+}
+
+/**
+ * Take the named lock unless another instance holds an unexpired one
+ */
+export async function acquireLock(name: string, ttlMs: number): Promise<boolean> {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + ttlMs);
+
+  const { count } = await prisma.jobLock.updateMany({
+    where: { name, lockedUntil: { lt: now } },
+    data: { lockedBy: INSTANCE_ID, lockedUntil },
+  });
+  if (count === 1) return true;
+
+  try {
+    await prisma.jobLock.create({ data: { name, lockedBy: INSTANCE_ID, lockedUntil } });
+    return true;
+  } catch (err) {
+    // Unique name: the lock exists and is held by someone else
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return false;
+    throw err;
+  }
+}
+
+/**
+ * Extend a lock this instance holds. False when it has been lost (it expired
+ * and another instance took it).
+ */
+export async function renewLock(name: string, ttlMs: number): Promise<boolean> {
+  const { count } = await prisma.jobLock.updateMany({
+    where: { name, lockedBy: INSTANCE_ID },
+    data: { lockedUntil: new Date(Date.now() + ttlMs) },
+  });
+  return count === 1;
+}
+
+/**
+ * Give the lock back early so the next run doesn't wait for it to expire
+ */
+export async function releaseLock(name: string): Promise<void> {
+  await prisma.jobLock.updateMany({
+    where: { name, lockedBy: INSTANCE_ID },
+    data: { lockedUntil: new Date() },
+  });
+}
+
+/**
+ * Run `task` holding the named lock. The lease is renewed while the task runs,
+ * so a run that takes longer than the TTL doesn't overlap the next one; the TTL
+ * only matters if this instance dies. Returns null when the lock is taken.
+ */
+export async function withLock<T>(name: string, ttlMs: number, task: () => Promise<T>): Promise<T | null> {
+  if (!(await acquireLock(name, ttlMs))) return null;
+
+  const renewal = setInterval(() => {
+    renewLock(name, ttlMs)
+      .then(held => { if (!held) console.error(`Lock ${name} was lost while running`); })
+      .catch(err => console.error(`Renewing lock ${name} failed:`, err));
+  }, ttlMs / 3);
+
+  try {
+    return await task();
+  } finally {
+    clearInterval(renewal);
+    await releaseLock(name).catch(err => console.error(`Releasing lock ${name} failed:`, err));
+  }
+}
+
+/**
+ * Run a job and record the run. The record is written once the run is over
+ * (the job's lock shows it running meanwhile), so a run with nothing to do
+ * can be left out of the history.
+ */
+async function recordRun(job: Job, recordIdle: boolean): Promise<JobRun | null> {
+  const startedAt = new Date();
+
+  try {
+    const details = await job.run();
+    if (details === null && !recordIdle) return null;
+
+    return await prisma.jobRun.create({
+      data: {
+        job: job.name,
+        instanceId: INSTANCE_ID,
+        status: 'succeeded',
+        startedAt,
+        finishedAt: new Date(),
+        details: details ?? undefined,
+      },
+    });
+  } catch (err) {
+    console.error(`Job ${job.name} failed:`, err);
+    return await prisma.jobRun.create({
+      data: {
+        job: job.name,
+        instanceId: INSTANCE_ID,
+        status: 'failed',
+        startedAt,
+        finishedAt: new Date(),
+        error: err instanceof Error ? err.message : String(err),
+        details: err instanceof JobFailure ? err.details : undefined,
+      },
+    });
+  }
+}
+
+/**
+ * Run a job once under its lock and record the run. Returns null when another
+ * instance is already running it, or when there was nothing to do and
+ * `recordIdle` is off (as for scheduled runs).
+ */
+export async function runJob(name: string, { recordIdle = false } = {}): Promise<JobRun | null> {
+  const job = jobs.get(name);
+  if (!job) throw new Error(`Unknown job: ${name}`);
+
+  return withLock(job.name, job.lockTtlMs, () => recordRun(job, recordIdle));
+}
+
+/**
+ * Run every registered job on its interval
+ */
+export function startScheduler(): void {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    console.log('⏸️  Job scheduler disabled');
+    return;
+  }
+
+  for (const job of jobs.values()) {
+    const tick = () => {
+      runJob(job.name).catch(err => console.error(`Job ${job.name} could not start:`, err));
+    };
+
+    setTimeout(() => {
+      tick();
+      setInterval(tick, job.intervalMs);
+    }, INITIAL_DELAY_MS);
+  }
+}
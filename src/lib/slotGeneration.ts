@@ -0,0 +1,257 @@
+import { Salon, Slot } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { WeeklyHours, findHoursExceptions, hoursForDate, toMinutes } from './hours.js';
+import { slotLocalTimes, slotStartDateTime } from './slots.js';
+import { zonedParts, zonedTimeToUtc } from './time.js';
+import { JobFailure, withLock } from './scheduler.js';
+
+export interface SlotGenerationOptions {
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string;   // "YYYY-MM-DD"
+  slotDurationMinutes: number;
+  capacity: number;
+}
+
+interface PlannedSlot {
+  date: Date;
+  startTime: Date;
+  endTime: Date;
+  capacity: number;
+}
+
+export interface SlotPlan {
+  create: PlannedSlot[];
+  // Empty slots whose times or capacity no longer match the hours
+  update: (PlannedSlot & { id: string })[];
+  // Empty slots that fall outside the hours
+  delete: Slot[];
+  // Slots with bookings that no longer fit the hours; left for staff to sort out
+  kept: Slot[];
+  unchanged: number;
+}
+
+export interface SlotPlanResult {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+const DAY_MS = 24 * 60 * 60000;
+
+export const SLOT_GENERATION_JOB = 'slot-generation';
+export const SLOT_GENERATION_LOCK_TTL_MS = 30 * 60000;
+
+/**
+ * Lock on one salon's slots, held by the scheduled job and by manual
+ * generation alike, so generating for one salon doesn't hold up the others
+ */
+export function slotGenerationLock(salonId: string): string {
+  return `${SLOT_GENERATION_JOB}:${salonId}`;
+}
+
+function formatTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Slots the salon's hours (and hours exceptions) call for between two dates
+ */
+async function desiredSlots(
+  salon: Pick<Salon, 'id' | 'operatingHours' | 'timezone'>,
+  { startDate, endDate, slotDurationMinutes, capacity }: SlotGenerationOptions
+): Promise<PlannedSlot[]> {
+  const first = new Date(`${startDate}T00:00:00Z`);
+  const last = new Date(`${endDate}T00:00:00Z`);
+  const exceptions = await findHoursExceptions(salon.id, first, last);
+
+  const slots: PlannedSlot[] = [];
+
+  for (let date = first; date <= last; date = new Date(date.getTime() + DAY_MS)) {
+    const config = hoursForDate(salon.operatingHours as unknown as WeeklyHours, date, exceptions);
+    if (!config) continue;
+
+    const day = date.toISOString().split('T')[0];
+    const close = toMinutes(config.close);
+
+    for (let start = toMinutes(config.open); start + slotDurationMinutes <= close; start += slotDurationMinutes) {
+      slots.push({
+        date,
+        startTime: zonedTimeToUtc(day, formatTime(start), salon.timezone),
+        endTime: zonedTimeToUtc(day, formatTime(start + slotDurationMinutes), salon.timezone),
+        capacity,
+      });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Work out what generating slots over a date range would change, without
+ * writing anything. Existing slots are matched on their start time; slots
+ * that have (or had) bookings are never changed or removed.
+ */
+export async function planSlotGeneration(
+  salon: Pick<Salon, 'id' | 'operatingHours' | 'timezone'>,
+  options: SlotGenerationOptions
+): Promise<SlotPlan> {
+  const [desired, existing] = await Promise.all([
+    desiredSlots(salon, options),
+    prisma.slot.findMany({
+      where: {
+        salonId: salon.id,
+        date: { gte: new Date(`${options.startDate}T00:00:00Z`), lte: new Date(`${options.endDate}T00:00:00Z`) },
+      },
+      orderBy: { startTime: 'asc' },
+    }),
+  ]);
+
+  // Cancelled and past bookings still point at their slots
+  const existingIds = existing.map(s => s.id);
+  const bookings = existingIds.length > 0
+    ? await prisma.booking.findMany({
+      where: { OR: [{ slotId: { in: existingIds } }, { slotIds: { hasSome: existingIds } }] },
+      select: { slotId: true, slotIds: true },
+    })
+    : [];
+  const referenced = new Set(bookings.flatMap(b => [b.slotId, ...b.slotIds]));
+  const isUsed = (slot: Slot) => slot.bookedCount > 0 || referenced.has(slot.id);
+
+  const byStart = new Map(existing.map(s => [slotStartDateTime(s, salon.timezone).getTime(), s]));
+  const plan: SlotPlan = { create: [], update: [], delete: [], kept: [], unchanged: 0 };
+
+  for (const slot of desired) {
+    const match = byStart.get(slot.startTime.getTime());
+    if (!match) {
+      plan.create.push(slot);
+      continue;
+    }
+    byStart.delete(slot.startTime.getTime());
+
+    const same = match.startTime.getTime() === slot.startTime.getTime() &&
+      match.endTime.getTime() === slot.endTime.getTime() &&
+      match.capacity === slot.capacity;
+
+    if (same || isUsed(match)) {
+      plan.unchanged++;
+    } else {
+      plan.update.push({ ...slot, id: match.id });
+    }
+  }
+
+  // Whatever is left over no longer fits the hours
+  for (const slot of byStart.values()) {
+    if (isUsed(slot)) {
+      plan.kept.push(slot);
+    } else {
+      plan.delete.push(slot);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Write a slot plan. Updates and deletes re-check that the slot is still
+ * empty, so a booking made since planning is never disturbed.
+ */
+export async function applySlotPlan(salonId: string, plan: SlotPlan): Promise<SlotPlanResult> {
+  return prisma.$transaction(async (tx) => {
+    const { count: created } = plan.create.length > 0
+      ? await tx.slot.createMany({ data: plan.create.map(slot => ({ ...slot, salonId })) })
+      : { count: 0 };
+
+    let updated = 0;
+    for (const { id, ...slot } of plan.update) {
+      const { count } = await tx.slot.updateMany({ where: { id, bookedCount: 0 }, data: slot });
+      updated += count;
+    }
+
+    const { count: deleted } = plan.delete.length > 0
+      ? await tx.slot.deleteMany({ where: { id: { in: plan.delete.map(s => s.id) }, bookedCount: 0 } })
+      : { count: 0 };
+
+    return { created, updated, deleted };
+  });
+}
+
+/**
+ * Readable summary of a plan for the dry-run response, in salon-local times
+ */
+export function describeSlotPlan(plan: SlotPlan, timeZone: string) {
+  const describe = (slot: Pick<Slot, 'date' | 'startTime' | 'endTime' | 'capacity'> & { id?: string }) => ({
+    id: slot.id,
+    date: slot.date.toISOString().split('T')[0],
+    ...slotLocalTimes(slot, timeZone),
+    capacity: slot.capacity,
+  });
+
+  return {
+    create: plan.create.map(describe),
+    update: plan.update.map(describe),
+    delete: plan.delete.map(describe),
+    kept: plan.kept.map(describe),
+    unchanged: plan.unchanged,
+  };
+}
+
+/**
+ * Bring a salon's slots between two dates back in line with its hours, at its
+ * usual slot length and capacity. Callers hold the salon's slot lock.
+ */
+export async function regenerateSlots(
+  salon: Pick<Salon, 'id' | 'operatingHours' | 'timezone' | 'slotDurationMinutes' | 'defaultSlotCapacity'>,
+  startDate: string,
+  endDate: string
+): Promise<SlotPlanResult> {
+  const plan = await planSlotGeneration(salon, {
+    startDate,
+    endDate,
+    slotDurationMinutes: salon.slotDurationMinutes,
+    capacity: salon.defaultSlotCapacity,
+  });
+  return applySlotPlan(salon.id, plan);
+}
+
+/**
+ * Keep every approved salon's slots generated `daysAhead` days into the future,
+ * from each salon's hours, capacity and slot length. One salon failing doesn't
+ * stop the rest, and a salon whose slots are being generated by hand is left
+ * for the next run.
+ */
+export async function generateUpcomingSlots(daysAhead: number) {
+  const salons = await prisma.salon.findMany({ where: { status: 'approved' } });
+
+  const totals = { salons: salons.length, created: 0, updated: 0, deleted: 0, skipped: 0 };
+  const failures: { salonId: string; error: string }[] = [];
+
+  for (const salon of salons) {
+    try {
+      const today = zonedParts(new Date(), salon.timezone).date;
+      const last = new Date(new Date(`${today}T00:00:00Z`).getTime() + (daysAhead - 1) * DAY_MS);
+
+      const result = await withLock(slotGenerationLock(salon.id), SLOT_GENERATION_LOCK_TTL_MS, () =>
+        regenerateSlots(salon, today, last.toISOString().split('T')[0])
+      );
+      if (!result) {
+        totals.skipped++;
+        continue;
+      }
+
+      totals.created += result.created;
+      totals.updated += result.updated;
+      totals.deleted += result.deleted;
+    } catch (err) {
+      failures.push({ salonId: salon.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new JobFailure(
+      `Slot generation failed for ${failures.length} of ${salons.length} salons`,
+      { ...totals, failures }
+    );
+  }
+
+  return totals;
+}
@@ -0,0 +1,123 @@
+import { Booking, Prisma, Slot } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { createError } from '../middleware/errorHandler.js';
+import { zonedParts, zonedTimeToUtc } from './time.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Slots generated before timezone support stored a bare time of day on 1970-01-01
+function isLegacySlot(slot: Pick<Slot, 'startTime'>): boolean {
+  return slot.startTime.getUTCFullYear() === 1970;
+}
+
+/**
+ * The instant a slot starts. Legacy time-of-day slots are read as wall-clock
+ * time in the salon's timezone.
+ */
+export function slotStartDateTime(slot: Pick<Slot, 'date' | 'startTime'>, timeZone: string): Date {
+  if (!isLegacySlot(slot)) return slot.startTime;
+
+  const day = slot.date.toISOString().split('T')[0];
+  return zonedTimeToUtc(day, slot.startTime.toISOString().substring(11, 16), timeZone);
+}
+
+/**
+ * The instant a slot ends
+ */
+export function slotEndDateTime(slot: Pick<Slot, 'date' | 'startTime' | 'endTime'>, timeZone: string): Date {
+  const length = slot.endTime.getTime() - slot.startTime.getTime();
+  return new Date(slotStartDateTime(slot, timeZone).getTime() + length);
+}
+
+/**
+ * Local "HH:mm:ss" start and end of a slot, as shown to customers
+ */
+export function slotLocalTimes(slot: Pick<Slot, 'date' | 'startTime' | 'endTime'>, timeZone: string) {
+  return {
+    startTime: `${zonedParts(slotStartDateTime(slot, timeZone), timeZone).time}:00`,
+    endTime: `${zonedParts(slotEndDateTime(slot, timeZone), timeZone).time}:00`,
+  };
+}
+
+/**
+ * Find the slot that starts at local "HH:mm" on a calendar date
+ */
+export function findSlotAt(salonId: string, date: Date, time: string, timeZone: string, db: Db = prisma) {
+  const day = date.toISOString().split('T')[0];
+
+  return db.slot.findFirst({
+    where: {
+      salonId,
+      date,
+      startTime: { in: [zonedTimeToUtc(day, time, timeZone), new Date(`1970-01-01T${time}:00Z`)] },
+    },
+  });
+}
+
+/**
+ * Slots reserved by a booking (older bookings only recorded a single slotId)
+ */
+export function bookingSlotIds(booking: Pick<Booking, 'slotId' | 'slotIds'>): string[] {
+  return booking.slotIds.length > 0 ? booking.slotIds : [booking.slotId];
+}
+
+/**
+ * Find every consecutive slot a service of `durationMinutes` occupies,
+ * starting with `firstSlot`. Throws if the run of slots has a gap or
+ * ends before the service does.
+ */
+export async function findSpannedSlots(
+  firstSlot: Slot,
+  durationMinutes: number,
+  db: Db = prisma
+): Promise<Slot[]> {
+  const spanEnd = new Date(firstSlot.startTime.getTime() + durationMinutes * 60000);
+
+  const slots = await db.slot.findMany({
+    where: {
+      salonId: firstSlot.salonId,
+      date: firstSlot.date,
+      startTime: { gte: firstSlot.startTime, lt: spanEnd },
+    },
+    orderBy: { startTime: 'asc' },
+  });
+
+  let cursor = firstSlot.startTime.getTime();
+  for (const slot of slots) {
+    if (slot.startTime.getTime() !== cursor) break;
+    cursor = slot.endTime.getTime();
+  }
+
+  if (cursor < spanEnd.getTime()) {
+    throw createError('Not enough consecutive slots for this service', 400, 'SLOT_SPAN_UNAVAILABLE');
+  }
+
+  return slots.filter(slot => slot.endTime.getTime() <= cursor);
+}
+
+/**
+ * Take one place in each slot. Must run inside a transaction so a full
+ * slot rolls back the places already taken.
+ */
+export async function reserveSlots(tx: Prisma.TransactionClient, slotIds: string[]): Promise<void> {
+  for (const id of slotIds) {
+    const { count } = await tx.slot.updateMany({
+      where: { id, bookedCount: { lt: tx.slot.fields.capacity } },
+      data: { bookedCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw createError('Slot full', 400, 'SLOT_FULL');
+    }
+  }
+}
+
+/**
+ * Give back one place in each slot
+ */
+export async function releaseSlots(db: Db, slotIds: string[]): Promise<void> {
+  await db.slot.updateMany({
+    where: { id: { in: slotIds }, bookedCount: { gt: 0 } },
+    data: { bookedCount: { decrement: 1 } },
+  });
+}
@@ -0,0 +1,298 @@
+import { Prisma, SalonMembership, Service, ServiceVariant } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { createError } from '../middleware/errorHandler.js';
+import { DayHours, HoursException, WeeklyHours, findHoursExceptions, hoursForDate, toMinutes } from './hours.js';
+import { toDateKey, zonedDayRange, zonedParts } from './time.js';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+// Bookings in these states keep the staff member busy
+const ACTIVE_BOOKING_STATUSES = ['booked', 'in_progress'] as const;
+
+export interface ServiceTerms {
+  price: number;
+  durationMinutes: number;
+}
+
+/**
+ * Whether a staff member performs a service. Members without a services
+ * list perform every service.
+ */
+export function performsService(membership: Pick<SalonMembership, 'services'>, serviceId: string): boolean {
+  return membership.services.length === 0 || membership.services.some(s => s.serviceId === serviceId);
+}
+
+/**
+ * Price and duration of a service (and variant) done by a staff member,
+ * or the standard ones when no staff member is given or they have no overrides
+ */
+export function staffServiceTerms(
+  membership: Pick<SalonMembership, 'services'> | null | undefined,
+  service: Pick<Service, 'id' | 'price' | 'durationMinutes'>,
+  variant?: ServiceVariant | null
+): ServiceTerms {
+  const entry = membership?.services.find(s => s.serviceId === service.id && (s.variantId ?? null) === (variant?.id ?? null));
+
+  return {
+    price: entry?.price ?? variant?.price ?? service.price,
+    durationMinutes: entry?.durationMinutes ?? variant?.durationMinutes ?? service.durationMinutes,
+  };
+}
+
+/**
+ * Throw unless the staff member performs the service
+ */
+export async function assertStaffPerforms(
+  salonId: string,
+  staffId: string,
+  serviceId: string,
+  db: Db = prisma
+): Promise<void> {
+  const membership = await db.salonMembership.findFirst({
+    where: { salonId, userId: staffId },
+    select: { services: true },
+  });
+
+  if (membership && !performsService(membership, serviceId)) {
+    throw createError('This staff member does not offer this service', 400, 'STAFF_CANNOT_PERFORM');
+  }
+}
+
+/**
+ * Working hours of a staff member (falls back to the salon's hours)
+ */
+export function staffWorkingHours(
+  membership: Pick<SalonMembership, 'workingHours'>,
+  salonHours: unknown
+): WeeklyHours {
+  return (membership.workingHours ?? salonHours) as WeeklyHours;
+}
+
+/**
+ * A staff member's shift on a calendar date key. A salon closure or short day
+ * on that date applies to everyone, whatever their usual hours.
+ */
+export function staffShiftForDate(
+  membership: Pick<SalonMembership, 'workingHours'>,
+  salonHours: unknown,
+  exceptions: HoursException[],
+  date: Date
+): DayHours | null {
+  const shift = hoursForDate(staffWorkingHours(membership, salonHours), date);
+  if (!shift || !exceptions.some(e => e.date.getTime() === date.getTime())) return shift;
+
+  const salonDay = hoursForDate(salonHours as WeeklyHours, date, exceptions);
+  if (!salonDay) return null;
+
+  const open = toMinutes(shift.open) > toMinutes(salonDay.open) ? shift.open : salonDay.open;
+  const close = toMinutes(shift.close) < toMinutes(salonDay.close) ? shift.close : salonDay.close;
+  return toMinutes(open) < toMinutes(close) ? { open, close, closed: false } : null;
+}
+
+/**
+ * Check that [start, end) falls inside the staff member's shift on its local day
+ */
+function isOnShift(
+  membership: Pick<SalonMembership, 'workingHours'>,
+  salon: { operatingHours: unknown; timezone: string },
+  exceptions: HoursException[],
+  start: Date,
+  end: Date
+): boolean {
+  const local = zonedParts(start, salon.timezone);
+  const shift = staffShiftForDate(membership, salon.operatingHours, exceptions, toDateKey(local.date));
+  if (!shift) return false;
+
+  const endMinutes = local.minutes + (end.getTime() - start.getTime()) / 60000;
+  return local.minutes >= toMinutes(shift.open) && endMinutes <= toMinutes(shift.close);
+}
+
+/**
+ * Hours exceptions on the salon-local day `start` falls on
+ */
+async function exceptionsOnDay(salonId: string, start: Date, timeZone: string, db: Db): Promise<HoursException[]> {
+  const date = toDateKey(zonedParts(start, timeZone).date);
+  return findHoursExceptions(salonId, date, date, db);
+}
+
+export interface StaffInterval {
+  bookingId: string;
+  staffId: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Time the given staff members are busy with bookings overlapping [start, end).
+ * Multi-service bookings keep staff per line item, older bookings only on the booking.
+ */
+export async function findStaffIntervals(
+  staffIds: string[],
+  start: Date,
+  end: Date,
+  excludeBookingId?: string,
+  db: Db = prisma
+): Promise<StaffInterval[]> {
+  const bookings = await db.booking.findMany({
+    where: {
+      status: { in: [...ACTIVE_BOOKING_STATUSES] },
+      startTime: { lt: end },
+      endTime: { gt: start },
+      OR: [
+        { staffId: { in: staffIds } },
+        { items: { some: { staffId: { in: staffIds } } } },
+      ],
+      ...(excludeBookingId && { id: { not: excludeBookingId } }),
+    },
+    select: { id: true, staffId: true, startTime: true, endTime: true, items: true },
+  });
+
+  return bookings
+    .flatMap(b => b.items.length > 0
+      ? b.items.map(item => ({ bookingId: b.id, staffId: item.staffId, startTime: item.startTime, endTime: item.endTime }))
+      : [{ bookingId: b.id, staffId: b.staffId, startTime: b.startTime, endTime: b.endTime }])
+    .filter((i): i is StaffInterval =>
+      !!i.staffId && staffIds.includes(i.staffId) && i.startTime < end && i.endTime > start
+    );
+}
+
+/**
+ * Bookings of a staff member that overlap [start, end)
+ */
+export function findStaffConflicts(
+  staffId: string,
+  start: Date,
+  end: Date,
+  excludeBookingId?: string,
+  db: Db = prisma
+): Promise<StaffInterval[]> {
+  return findStaffIntervals([staffId], start, end, excludeBookingId, db);
+}
+
+/**
+ * Claim a staff member's salon-local day inside a booking transaction. MongoDB
+ * doesn't serialize the availability reads, but two transactions writing the
+ * same lock document can't both commit, so the second fails with a write
+ * conflict (see isStaffLockConflict) rather than double-booking them.
+ */
+export async function lockStaffDay(
+  tx: Prisma.TransactionClient,
+  staffId: string,
+  start: Date,
+  timeZone: string
+): Promise<void> {
+  const date = toDateKey(zonedParts(start, timeZone).date);
+
+  await tx.staffDayLock.upsert({
+    where: { staffId_date: { staffId, date } },
+    create: { staffId, date, version: 1 },
+    update: { version: { increment: 1 } },
+  });
+}
+
+/**
+ * Whether a failed booking transaction lost the race for a staff member's day
+ * (a write conflict, or both creating the day's lock document)
+ */
+export function isStaffLockConflict(err: unknown): boolean {
+  if (!(err instanceof Prisma.PrismaClientKnownRequestError)) return false;
+  return err.code === 'P2034' || (err.code === 'P2002' && String(err.meta?.target).includes('staff_day_locks'));
+}
+
+/**
+ * Throw unless the staff member works at the salon, is on shift and is free for [start, end)
+ */
+export async function assertStaffAvailable(
+  salonId: string,
+  staffId: string,
+  start: Date,
+  end: Date,
+  excludeBookingId?: string,
+  db: Db = prisma
+): Promise<void> {
+  const membership = await db.salonMembership.findFirst({
+    where: { salonId, userId: staffId },
+    include: { salon: { select: { operatingHours: true, timezone: true } } },
+  });
+
+  if (!membership) {
+    throw createError('Staff member not found', 404, 'STAFF_NOT_FOUND');
+  }
+
+  const { salon } = membership;
+  const exceptions = await exceptionsOnDay(salonId, start, salon.timezone, db);
+  if (!isOnShift(membership, salon, exceptions, start, end)) {
+    throw createError('Staff member is not working at this time', 400, 'STAFF_NOT_WORKING');
+  }
+
+  const conflicts = await findStaffConflicts(staffId, start, end, excludeBookingId, db);
+  if (conflicts.length > 0) {
+    throw createError('Staff member is already booked at this time', 409, 'STAFF_UNAVAILABLE');
+  }
+}
+
+export interface PickedStaff {
+  userId: string;
+  // What the picked member charges for the service
+  price: number;
+  // How long the picked member takes over it
+  durationMinutes: number;
+}
+
+/**
+ * Pick a staff member who performs the service and is on shift and free from
+ * `start` for as long as they take over it, with their own price and duration
+ * where they have them. Prefers whoever has the fewest bookings that day to
+ * spread the work.
+ */
+export async function pickAvailableStaff(
+  salonId: string,
+  start: Date,
+  service: Pick<Service, 'id' | 'price' | 'durationMinutes'>,
+  variant?: ServiceVariant | null,
+  excludeBookingId?: string,
+  db: Db = prisma
+): Promise<PickedStaff | null> {
+  const memberships = await db.salonMembership.findMany({
+    where: { salonId },
+    include: { salon: { select: { operatingHours: true, timezone: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (memberships.length === 0) return null;
+
+  const timeZone = memberships[0].salon.timezone;
+  const exceptions = await exceptionsOnDay(salonId, start, timeZone, db);
+
+  const onShift = memberships
+    .filter(m => performsService(m, service.id))
+    .map(m => {
+      const terms = staffServiceTerms(m, service, variant);
+      return { membership: m, terms, end: new Date(start.getTime() + terms.durationMinutes * 60000) };
+    })
+    .filter(({ membership, end }) => isOnShift(membership, membership.salon, exceptions, start, end));
+  if (onShift.length === 0) return null;
+
+  const day = zonedDayRange(zonedParts(start, timeZone).date, timeZone);
+
+  const sameDay = await findStaffIntervals(
+    onShift.map(({ membership }) => membership.userId),
+    day.start,
+    day.end,
+    excludeBookingId,
+    db
+  );
+
+  const candidates = onShift
+    .filter(({ membership, end }) =>
+      !sameDay.some(b => b.staffId === membership.userId && b.startTime < end && b.endTime > start)
+    )
+    .map(({ membership, terms }) => ({
+      userId: membership.userId,
+      terms,
+      load: sameDay.filter(b => b.staffId === membership.userId).length,
+    }))
+    .sort((a, b) => a.load - b.load);
+
+  return candidates[0] ? { userId: candidates[0].userId, ...candidates[0].terms } : null;
+}
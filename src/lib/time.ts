@@ -0,0 +1,121 @@
+export interface ZonedParts {
+  date: string;    // "YYYY-MM-DD"
+  time: string;    // "HH:mm"
+  minutes: number; // minutes since local midnight
+  weekday: number; // 0 = Sunday
+}
+
+/**
+ * Check that a string is an IANA timezone the runtime knows (e.g. "Australia/Perth")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a string is a BCP 47 locale the runtime can format with (e.g. "en-AU")
+ */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Standard spelling of a valid locale, e.g. "en-au" becomes "en-AU"
+ */
+export function canonicalLocale(locale: string): string {
+  return Intl.getCanonicalLocales(locale)[0];
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function zonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)!.value;
+  const hour = Number(get('hour'));
+  const minute = Number(get('minute'));
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+    minutes: hour * 60 + minute,
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in minutes
+ */
+function offsetMinutes(instant: Date, timeZone: string): number {
+  const { date, time } = zonedParts(instant, timeZone);
+  const asUtc = new Date(`${date}T${time}:00Z`).getTime();
+  const truncated = Math.floor(instant.getTime() / 60000) * 60000;
+  return (asUtc - truncated) / 60000;
+}
+
+/**
+ * UTC instant of a wall-clock date ("YYYY-MM-DD") and time ("HH:mm") in a timezone.
+ * The offset is re-checked at the result so times next to a DST change land correctly.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const naive = new Date(`${date}T${time.slice(0, 5)}:00Z`).getTime();
+
+  const first = offsetMinutes(new Date(naive), timeZone);
+  const second = offsetMinutes(new Date(naive - first * 60000), timeZone);
+
+  return new Date(naive - second * 60000);
+}
+
+/**
+ * UTC bounds [start, end) of a calendar day in a timezone
+ */
+export function zonedDayRange(date: string, timeZone: string): { start: Date; end: Date } {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+
+  return {
+    start: zonedTimeToUtc(date, '00:00', timeZone),
+    end: zonedTimeToUtc(next.toISOString().split('T')[0], '00:00', timeZone),
+  };
+}
+
+/**
+ * Calendar date key used for Slot.date / Booking.bookingDate (midnight UTC of the local day)
+ */
+export function toDateKey(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+/**
+ * Human readable date and time in the salon's timezone, e.g. "Mon, 2 Feb, 10:30 am"
+ */
+export function formatDateTime(instant: Date | string, timeZone: string, locale = 'en-AU'): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  }).format(new Date(instant));
+}
@@ -0,0 +1,157 @@
+import { Service, Slot, WaitlistEntry } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { AppError, createError } from '../middleware/errorHandler.js';
+import { toMinutes } from './hours.js';
+import { zonedParts } from './time.js';
+import { findSpannedSlots, releaseSlots, reserveSlots, slotStartDateTime } from './slots.js';
+import { notify } from './notifications/index.js';
+import { publishSlotCapacity } from './salonEvents.js';
+import { staffServiceTerms } from './staff.js';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Check whether a slot is one the waitlisted customer asked for
+ */
+function matchesEntry(entry: WaitlistEntry, slot: Slot, timeZone: string): boolean {
+  if (entry.slotId) return slot.id === entry.slotId;
+
+  const start = zonedParts(slotStartDateTime(slot, timeZone), timeZone).minutes;
+  if (entry.windowStart && start < toMinutes(entry.windowStart)) return false;
+  if (entry.windowEnd && start >= toMinutes(entry.windowEnd)) return false;
+  return true;
+}
+
+/**
+ * How long the waitlisted service (and option) takes, at the standard duration
+ */
+function entryDurationMinutes(entry: WaitlistEntry & { service: Service }): number {
+  const variant = entry.service.variants.find(v => v.id === entry.variantId);
+  return staffServiceTerms(null, entry.service, variant).durationMinutes;
+}
+
+/**
+ * Offer freed capacity on a salon's date to waitlisted customers, first come first served.
+ * Each offer holds the places so nobody else can take them while the customer decides.
+ */
+export async function offerFreedCapacity(salonId: string, date: Date): Promise<void> {
+  const [salon, entries] = await Promise.all([
+    prisma.salon.findUnique({ where: { id: salonId } }),
+    prisma.waitlistEntry.findMany({
+      where: { salonId, date, status: 'waiting' },
+      include: {
+        service: true,
+        user: { select: { fullName: true, phone: true, email: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+  ]);
+
+  if (!salon || entries.length === 0) return;
+
+  const slots = await prisma.slot.findMany({
+    where: { salonId, date },
+    orderBy: { startTime: 'asc' },
+  });
+
+  for (const entry of entries) {
+    for (const slot of slots.filter(s => matchesEntry(entry, s, salon.timezone))) {
+      let slotIds: string[];
+      try {
+        slotIds = (await findSpannedSlots(slot, entryDurationMinutes(entry))).map(s => s.id);
+      } catch {
+        continue;
+      }
+
+      const offerExpiresAt = new Date(Date.now() + salon.waitlistHoldMinutes * 60000);
+
+      const offered = await prisma.$transaction(async (tx) => {
+        await reserveSlots(tx, slotIds);
+
+        const { count } = await tx.waitlistEntry.updateMany({
+          where: { id: entry.id, status: 'waiting' },
+          data: {
+            status: 'offered',
+            offeredSlotIds: slotIds,
+            offeredAt: new Date(),
+            offerExpiresAt,
+          },
+        });
+        if (count === 0) throw createError('Waitlist entry is no longer waiting', 409);
+
+        return true;
+      }).catch((err: AppError) => {
+        // Full slots and entries taken by another worker are expected; anything else is not
+        if (err.statusCode) return false;
+        throw err;
+      });
+
+      if (!offered) continue;
+
+      // Held places count against the slot like a booking
+      publishSlotCapacity(salonId, slotIds);
+
+      await notify({
+        type: 'waitlist_offer',
+        recipient: { userId: entry.userId, phone: entry.user.phone, email: entry.user.email },
+        data: {
+          customerName: entry.user.fullName,
+          dateTime: slotStartDateTime(slot, salon.timezone),
+          timeZone: salon.timezone,
+          salonName: salon.name,
+          holdMinutes: salon.waitlistHoldMinutes,
+        },
+        salonId: salon.id,
+      });
+
+      break;
+    }
+  }
+}
+
+/**
+ * Close an open offer, give the held places back and offer them to the next customer
+ */
+export async function withdrawOffer(
+  entry: Pick<WaitlistEntry, 'id' | 'salonId' | 'date' | 'offeredSlotIds'>,
+  status: 'expired' | 'cancelled'
+): Promise<void> {
+  const released = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.waitlistEntry.updateMany({
+      where: { id: entry.id, status: 'offered' },
+      data: { status, offeredSlotIds: [] },
+    });
+    if (count === 0) return false;
+
+    await releaseSlots(tx, entry.offeredSlotIds);
+    return true;
+  });
+
+  if (released) {
+    publishSlotCapacity(entry.salonId, entry.offeredSlotIds);
+    await offerFreedCapacity(entry.salonId, entry.date);
+  }
+}
+
+/**
+ * Expire offers whose hold period has run out
+ */
+export async function expireWaitlistOffers(): Promise<void> {
+  const expired = await prisma.waitlistEntry.findMany({
+    where: { status: 'offered', offerExpiresAt: { lt: new Date() } },
+    orderBy: { offerExpiresAt: 'asc' },
+  });
+
+  for (const entry of expired) {
+    await withdrawOffer(entry, 'expired');
+  }
+}
+
+/**
+ * Periodically expire stale offers so held places move on to the next customer
+ */
+export function startWaitlistSweeper(): NodeJS.Timeout {
+  return setInterval(() => {
+    expireWaitlistOffers().catch(err => console.error('Waitlist sweep failed:', err));
+  }, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import twilio from 'twilio';
+
+/**
+ * Reject webhook requests that weren't signed by Twilio.
+ * Set TWILIO_WEBHOOK_BASE_URL when running behind a proxy so the signed URL matches.
+ */
+export function validateTwilioSignature(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  // Local webhook testing (e.g. with curl) has no signature to check
+  if (process.env.NODE_ENV === 'development') {
+    next();
+    return;
+  }
+
+  const signature = req.header('X-Twilio-Signature');
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL || `${req.protocol}://${req.get('host')}`;
+  const url = `${baseUrl.replace(/\/$/, '')}${req.originalUrl}`;
+
+  if (!signature || !twilio.validateRequest(process.env.TWILIO_AUTH_TOKEN!, signature, url, req.body ?? {})) {
+    res.status(403).json({ success: false, error: 'Invalid Twilio signature' });
+    return;
+  }
+
+  next();
+}
@@ -6,7 +6,7 @@ import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
 import { otpRateLimiter } from '../middleware/rateLimit.js';
 import { prisma } from '../lib/prisma.js';
-import { sendOtp } from '../lib/twilio.js';
+import { notify } from '../lib/notifications/index.js';
 import { Gender } from '@prisma/client';
 
 interface JWTPayload {
@@ -63,11 +63,14 @@ router.post('/send-otp', otpRateLimiter, asyncHandler(async (req, res) => {
     },
   });
 
-  // Send OTP via Twilio (or mock in development)
-  if (process.env.NODE_ENV === 'development') {
-      console.log(`📱 DEV OTP for ${phone}: ${otp}`);
-  } else {
-      await sendOtp(phone, otp);
+  // Send OTP by SMS (the dev outbox logs it in development)
+  // Codes are sent once and never retried from the outbox, so a failed send fails the request
+  const [result] = await notify({ type: 'otp', recipient: { phone }, data: { otp } });
+  if (result?.reason === 'opted_out') {
+    throw createError('This number has opted out of SMS. Text START to resubscribe, then try again.', 403, 'SMS_OPTED_OUT');
+  }
+  if (result?.status !== 'sent') {
+    throw createError('Failed to send OTP', 502, 'OTP_SEND_FAILED');
   }
 
   res.json({
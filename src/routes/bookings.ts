@@ -1,16 +1,31 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import crypto from 'crypto';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { 
   authMiddleware, 
   AuthenticatedRequest, 
   isSuperAdmin,
+  isSalonAdmin,
   isSalonStaff,
   optionalAuth,
 } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
-import { sendBookingConfirmation } from '@/lib/twilio.js';
+import { findSlotAt, slotStartDateTime } from '../lib/slots.js';
+import { zonedTimeToUtc } from '../lib/time.js';
+import {
+  appointmentData,
+  cancelBooking,
+  moveBooking,
+  notifyCancellation,
+  reserveBooking,
+  seriesDates,
+} from '../lib/bookings.js';
+import { assertCanReschedule, bookingPolicy, evaluateCancellation } from '../lib/policy.js';
+import { notify, notifySalonMembers } from '../lib/notifications/index.js';
+import { resendMessage } from '../lib/notifications/queue.js';
+import { publishBookingEvent } from '../lib/salonEvents.js';
+import { resolveVariant } from '../lib/catalogue.js';
+import { findPromoCode } from '../lib/promoCodes.js';
 
 const router = Router();
 
@@ -54,6 +69,7 @@ router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
   }
 
   // 3. FIXED Date Filtering
+  // bookingDate holds the salon-local calendar day at midnight UTC, so plain UTC day bounds match it
   if (date) {
     // Exact Day Match: From start of day to end of day
     const dayStart = new Date(`${date}T00:00:00.000Z`);
@@ -106,117 +122,246 @@ router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
  */
 router.post('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res) => {
   // 1. Validation
+  // 'any' lets the salon assign whichever stylist is free
+  const staffIdSchema = z.union([
+    z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Staff ID format"),
+    z.literal('any'),
+  ]);
+
   const schema = z.object({
     salonId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Salon ID format"),
-    serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Service ID format"),
+    serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Service ID format").optional(),
+    // The option chosen of serviceId, when it has variants
+    variantId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Variant ID format").optional(),
+    // Several services in one visit, performed in this order
+    services: z.array(z.object({
+      serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Service ID format"),
+      variantId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Variant ID format").optional(),
+      staffId: staffIdSchema.optional(),
+    })).min(1).max(10).optional(),
     slotId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Slot ID format"),
-    staffId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Slot ID format").optional(),
+    staffId: staffIdSchema.optional(),
     bookingDate: z.string(), 
     startTime: z.string(),   
     notes: z.string().max(500).optional(),
-  });
+    promoCode: z.string().trim().min(1).max(40).optional(),
+  }).refine(d => d.serviceId || d.services, { message: 'serviceId or services is required', path: ['services'] });
 
   const data = schema.parse(req.body);
   const userId = req.user?.userId;
 
   if (!userId) throw createError('Authentication required', 401);
 
+  const requestedLines = data.services ?? [{ serviceId: data.serviceId!, variantId: data.variantId, staffId: undefined }];
+
   // 2. Optimized Parallel Lookups
   // We fetch everything in one go to reduce latency
-  const [user, salon, service, slot] = await Promise.all([
+  const [user, salon, services, slot] = await Promise.all([
     prisma.user.findUnique({ where: { id: userId } }),
-    prisma.salon.findUnique({ 
-      where: { id: data.salonId },
-      include: { 
-        memberships: { 
-          take: 1, 
-          include: { user: { select: { phone: true } } } 
-        } 
-      }
-    }),
-    prisma.service.findUnique({ where: { id: data.serviceId } }),
+    prisma.salon.findUnique({ where: { id: data.salonId } }),
+    prisma.service.findMany({ where: { id: { in: requestedLines.map(l => l.serviceId) } } }),
     prisma.slot.findUnique({ where: { id: data.slotId } })
   ]);
 
+  const lines = requestedLines.map(line => ({
+    service: services.find(s => s.id === line.serviceId)!,
+    variantId: line.variantId,
+    staffId: line.staffId ?? data.staffId,
+  }));
+
   // 3. Robust Validation Checks
   if (!user) throw createError('User not found', 404);
   if (!salon || salon.status !== 'approved') throw createError('Salon unavailable', 400);
-  if (!service || !service.isActive) throw createError('Service unavailable', 400);
-  if (!slot || slot.bookedCount >= slot.capacity) throw createError('Slot full', 400);
-
-  // 4. Time Calculation
-  const startDateTime = new Date(`${data.bookingDate}T${data.startTime.slice(0, 5)}:00Z`);
-  if (isNaN(startDateTime.getTime())) throw createError('Invalid date/time', 400);
-
-  const endDateTime = new Date(startDateTime.getTime() + service.durationMinutes * 60000);
-  const qrCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+  if (lines.some(({ service }) => !service || service.salonId !== data.salonId || !service.isActive)) {
+    throw createError('Service unavailable', 400);
+  }
+  const bookedLines = lines.map(({ variantId, ...line }) => ({ ...line, variant: resolveVariant(line.service, variantId) }));
+  if (!slot || slot.salonId !== data.salonId) throw createError('Slot not found', 404);
+  if (slot.bookedCount >= slot.capacity) throw createError('Slot full', 400, 'SLOT_FULL');
+  const promo = data.promoCode ? await findPromoCode(data.promoCode, salon.id) : undefined;
+
+  // 4. Time Calculation: the visit starts when the reserved slot does. The
+  // requested wall-clock time at the salon must agree with it.
+  const startDateTime = slotStartDateTime(slot, salon.timezone);
+  const requested = zonedTimeToUtc(data.bookingDate, data.startTime, salon.timezone);
+  if (isNaN(requested.getTime())) throw createError('Invalid date/time', 400);
+  if (requested.getTime() !== startDateTime.getTime()) {
+    throw createError('The requested time does not match the slot', 400, 'SLOT_MISMATCH');
+  }
 
   // 5. Atomic Transaction
-  const [booking] = await prisma.$transaction([
-    prisma.booking.create({
-      data: {
-        userId,
-        salonId: data.salonId,
-        serviceId: data.serviceId,
-        slotId: data.slotId,
-        staffId: data.staffId || null,
-        bookingDate: new Date(`${data.bookingDate}T00:00:00Z`),
-        startTime: startDateTime,
-        endTime: endDateTime,
-        qrCode,
-        notes: data.notes,
-        status: 'booked',
-      },
-      include: {
-        salon: { select: { name: true } },
-        service: { select: { name: true, price: true } }
-      },
-    }),
-    prisma.slot.update({
-      where: { id: data.slotId },
-      data: {
-        bookedCount: { increment: 1 },
-        staffId: data.staffId  },
-    }),
-  ]);
+  const booking = await reserveBooking({
+    userId,
+    salonId: data.salonId,
+    lines: bookedLines,
+    slot,
+    startTime: startDateTime,
+    notes: data.notes,
+    promo,
+  });
 
-  // 6. Background SMS Notification
+  // 6. Background Notifications
   // We don't 'await' this so the user gets their response faster
-  const salonAdminPhone = salon.memberships[0]?.user?.phone as string;
-  const formattedDate = new Intl.DateTimeFormat('en-AU', {
-    weekday: 'short',
-    month: 'short',
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true,
-  }).format(new Date(startDateTime)); 
+  const details = appointmentData(booking, salon, user.fullName);
   const confirmationTask = async () => {
-    try {
-      const payload = {
-        phone: user.phone!,
-        customerName: user.fullName,
-        dateTime: startDateTime,
-        salonName: salon.name,
-        adminPhone: salonAdminPhone
-      };
-
-      if (process.env.NODE_ENV === 'development') {
-        console.log('📱 [DEV SMS]:', payload);
-        console.log(formattedDate)
-      } else {
-        await sendBookingConfirmation(payload);
-      }
-    } catch (err) {
-      console.error('SMS Background Task Failed:', err);
-    }
+    await notify({
+      type: 'booking_confirmation',
+      recipient: { userId: user.id, phone: user.phone, email: user.email },
+      data: details,
+      salonId: salon.id,
+      bookingId: booking.id,
+    });
+
+    // Admins get every alert channel; other staff see it in the app and by push
+    await notifySalonMembers({
+      type: 'booking_alert',
+      roles: ['salon_admin'],
+      data: details,
+      salonId: salon.id,
+      bookingId: booking.id,
+    });
+    await notifySalonMembers({
+      type: 'booking_alert',
+      roles: ['salon_staff'],
+      channels: ['in_app', 'push'],
+      data: details,
+      salonId: salon.id,
+      bookingId: booking.id,
+    });
   };
 
-  confirmationTask(); // Execute in background
+  confirmationTask().catch(err => console.error('Notification Background Task Failed:', err)); // Execute in background
 
   res.status(201).json({ success: true, booking });
 }));
 
+/**
+ * POST /api/bookings/series
+ * Book the same service on a recurring schedule
+ */
+router.post('/series', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const schema = z.object({
+    salonId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Salon ID format"),
+    serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Service ID format"),
+    variantId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Variant ID format").optional(),
+    staffId: z.union([
+      z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Staff ID format"),
+      z.literal('any'),
+    ]).optional(),
+    // Staff may book a series on behalf of a customer
+    userId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid User ID format").optional(),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be HH:mm'),
+    frequency: z.enum(['weekly', 'fortnightly', 'monthly']),
+    occurrences: z.number().int().min(2).max(52),
+    notes: z.string().max(500).optional(),
+  });
+
+  const data = schema.parse(req.body);
+  const actorId = req.user!.userId;
+
+  if (data.userId && data.userId !== actorId && !isSalonStaff(req, data.salonId)) {
+    throw createError('Salon staff access required to book for another customer', 403);
+  }
+  const userId = data.userId ?? actorId;
+
+  const [user, salon, service] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId } }),
+    prisma.salon.findUnique({ where: { id: data.salonId } }),
+    prisma.service.findUnique({ where: { id: data.serviceId } }),
+  ]);
+
+  if (!user) throw createError('User not found', 404);
+  if (!salon || salon.status !== 'approved') throw createError('Salon unavailable', 400);
+  if (!service || service.salonId !== salon.id || !service.isActive) throw createError('Service unavailable', 400);
+  const variant = resolveVariant(service, data.variantId);
+
+  const startDate = new Date(`${data.startDate}T00:00:00.000Z`);
+  if (isNaN(startDate.getTime())) throw createError('Invalid date', 400);
+
+  const series = await prisma.bookingSeries.create({
+    data: {
+      userId,
+      salonId: salon.id,
+      serviceId: service.id,
+      variantId: variant?.id,
+      staffId: data.staffId === 'any' ? null : data.staffId,
+      frequency: data.frequency,
+      occurrences: data.occurrences,
+      startDate,
+      startTime: data.startTime,
+      notes: data.notes,
+      createdBy: actorId,
+    },
+  });
+
+  // Each date is booked on its own so one clash doesn't sink the whole series
+  const bookings = [];
+  const conflicts: { date: string; reason: string; code?: string }[] = [];
+
+  for (const date of seriesDates(startDate, data.frequency, data.occurrences)) {
+    const day = date.toISOString().split('T')[0];
+
+    const slot = await findSlotAt(salon.id, date, data.startTime, salon.timezone);
+    if (!slot) {
+      conflicts.push({ date: day, reason: 'No slot at this time', code: 'SLOT_NOT_FOUND' });
+      continue;
+    }
+
+    try {
+      bookings.push(await reserveBooking({
+        userId,
+        salonId: salon.id,
+        lines: [{ service, variant, staffId: data.staffId }],
+        slot,
+        startTime: slotStartDateTime(slot, salon.timezone),
+        notes: data.notes,
+        seriesId: series.id,
+      }));
+    } catch (err: any) {
+      if (!err.statusCode) throw err;
+      conflicts.push({ date: day, reason: err.message, code: err.code });
+    }
+  }
+
+  if (bookings.length === 0) {
+    await prisma.bookingSeries.delete({ where: { id: series.id } });
+    return res.status(409).json({
+      success: false,
+      error: 'None of the requested dates are available',
+      code: 'SERIES_UNAVAILABLE',
+      conflicts,
+    });
+  }
+
+  res.status(201).json({ success: true, series, bookings, conflicts });
+}));
+
+/**
+ * GET /api/bookings/series/:seriesId
+ * Get a booking series with its bookings
+ */
+router.get('/series/:seriesId', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: req.params.seriesId },
+    include: {
+      salon: { select: { id: true, name: true } },
+      service: { select: { id: true, name: true, price: true } },
+      bookings: { orderBy: { startTime: 'asc' } },
+    },
+  });
+
+  if (!series) {
+    throw createError('Series not found', 404);
+  }
+
+  if (series.userId !== req.user!.userId && !isSalonStaff(req, series.salonId) && !isSuperAdmin(req)) {
+    throw createError('Access denied', 403);
+  }
+
+  res.json({ series });
+}));
+
 /**
  * GET /api/bookings/:bookingId
  * Get single booking details
@@ -244,15 +389,31 @@ router.get('/:bookingId', asyncHandler(async (req: AuthenticatedRequest, res) =>
     throw createError('Access denied', 403);
   }
 
-  res.json({ booking });
+  // Policy overrides are only shown to the salon
+  const auditLogs = isStaff || isAdmin
+    ? await prisma.bookingAuditLog.findMany({
+        where: { bookingId: booking.id },
+        include: { actor: { select: { id: true, fullName: true } } },
+        orderBy: { createdAt: 'desc' },
+      })
+    : undefined;
+
+  res.json({ booking, auditLogs });
 }));
 
 /**
  * POST /api/bookings/:bookingId/cancel
- * Cancel a booking
+ * Cancel a booking (or, for a series, this and all future bookings)
  */
 router.post('/:bookingId/cancel', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res) => {
- 
+  const schema = z.object({
+    scope: z.enum(['this', 'future']).default('this'),
+    // Staff only: bypass the salon's cancellation policy
+    overrideReason: z.string().min(3).max(500).optional(),
+  });
+
+  const { scope, overrideReason } = schema.parse(req.body ?? {});
+
   const booking = await prisma.booking.findUnique({
     where: { id: req.params.bookingId },
   });
@@ -274,19 +435,68 @@ router.post('/:bookingId/cancel', optionalAuth, asyncHandler(async (req: Authent
     throw createError('Only booked appointments can be cancelled', 400);
   }
 
-  const [updated] = await prisma.$transaction([
-    prisma.booking.update({
-      where: { id: booking.id },
-      data: {
-        status: 'cancelled',
-        cancelledAt: new Date(),
+  if (overrideReason && !isStaff && !isAdmin) {
+    throw createError('Only salon staff can override the cancellation policy', 403);
+  }
+
+  const override = overrideReason
+    ? { actorId: req.user!.userId, reason: overrideReason, details: { scope } }
+    : undefined;
+
+  const upcoming = scope === 'future' && booking.seriesId
+    ? await prisma.booking.findMany({
+      where: {
+        seriesId: booking.seriesId,
+        status: 'booked',
+        startTime: { gt: booking.startTime },
       },
-    }),
-    prisma.slot.update({
-      where: { id: booking.slotId },
-      data: { bookedCount: { decrement: 1 } },
-    }),
-  ]);
+      orderBy: { startTime: 'asc' },
+    })
+    : [];
+
+  // Every booking cancelled goes through the policy (unless overridden), all
+  // checked before any is cancelled
+  const salon = await prisma.salon.findUniqueOrThrow({ where: { id: booking.salonId } });
+  const policy = bookingPolicy(salon);
+  const cancellations = [booking, ...upcoming].map(b => {
+    if (override) return { booking: b, options: { override } };
+
+    const verdict = evaluateCancellation(policy, b);
+    return { booking: b, options: { status: verdict.status, lateCancellation: verdict.late } };
+  });
+
+  const updated = await cancelBooking(booking, cancellations[0].options);
+
+  notifyCancellation(booking.id)
+    .catch(err => console.error('Notification Background Task Failed:', err));
+
+  if (upcoming.length > 0) {
+    // Each booking is cancelled (and notified) on its own; one failing doesn't
+    // undo the others, so the response says which went through
+    const cancelledBookingIds = [booking.id];
+    const failed: { bookingId: string; error: string }[] = [];
+
+    for (const { booking: next, options } of cancellations.slice(1)) {
+      try {
+        await cancelBooking(next, options);
+        cancelledBookingIds.push(next.id);
+
+        notifyCancellation(next.id)
+          .catch(err => console.error('Notification Background Task Failed:', err));
+      } catch (err) {
+        console.error(`Cancelling series booking ${next.id} failed:`, err);
+        failed.push({ bookingId: next.id, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    return res.json({
+      success: failed.length === 0,
+      message: `Cancelled ${cancelledBookingIds.length} of ${upcoming.length + 1} bookings in the series`,
+      booking: updated,
+      cancelledBookingIds,
+      failed,
+    });
+  }
 
   res.json({
     success: true,
@@ -295,6 +505,61 @@ router.post('/:bookingId/cancel', optionalAuth, asyncHandler(async (req: Authent
   });
 }));
 
+/**
+ * POST /api/bookings/:bookingId/reschedule
+ * Move a booking to another slot, within the salon's reschedule policy
+ */
+router.post('/:bookingId/reschedule', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const schema = z.object({
+    slotId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Slot ID format"),
+    // Staff only: bypass the salon's reschedule policy
+    overrideReason: z.string().min(3).max(500).optional(),
+  });
+
+  const { slotId, overrideReason } = schema.parse(req.body);
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: req.params.bookingId },
+    include: { salon: true },
+  });
+
+  if (!booking) {
+    throw createError('Booking not found', 404);
+  }
+
+  const isOwner = booking.userId === req.user!.userId;
+  const isStaff = isSalonStaff(req, booking.salonId) || isSuperAdmin(req);
+
+  if (!isOwner && !isStaff) {
+    throw createError('Access denied', 403);
+  }
+
+  if (overrideReason) {
+    if (!isStaff) {
+      throw createError('Only salon staff can override the reschedule policy', 403);
+    }
+  } else {
+    assertCanReschedule(bookingPolicy(booking.salon), booking);
+  }
+
+  const slot = await prisma.slot.findUnique({ where: { id: slotId } });
+  if (!slot || slot.salonId !== booking.salonId) throw createError('Slot not found', 404);
+  if (slot.id === booking.slotId) throw createError('Booking is already in this slot', 400);
+
+  const updated = await moveBooking(booking, {
+    slot,
+    override: overrideReason
+      ? { actorId: req.user!.userId, reason: overrideReason, details: { fromSlotId: booking.slotId, toSlotId: slot.id } }
+      : undefined,
+  });
+
+  res.json({
+    success: true,
+    message: 'Booking rescheduled successfully',
+    booking: updated,
+  });
+}));
+
 /**
  * POST /api/bookings/:bookingId/complete
  * Complete a booking (check-in)
@@ -333,6 +598,8 @@ router.post('/:bookingId/complete', asyncHandler(async (req: AuthenticatedReques
     },
   });
 
+  publishBookingEvent(updated);
+
   res.json({
     success: true,
     message: markNoShow ? 'Booking marked as no-show' : 'Booking completed successfully',
@@ -348,7 +615,10 @@ router.patch('/:bookingId/update', asyncHandler(async (req: AuthenticatedRequest
   const schema = z.object({
     serviceStarted: z.boolean().optional(),
     serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
+    // Option of the (new or current) service, for services with variants
+    variantId: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
     slotId: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
+    staffId: z.string().regex(/^[0-9a-fA-F]{24}$/).nullable().optional(),
     bookingDate: z.string().optional(), // Expecting ISO string or YYYY-MM-DD
   });
 
@@ -381,36 +651,53 @@ router.patch('/:bookingId/update', asyncHandler(async (req: AuthenticatedRequest
     updatePayload.serviceStarted = new Date();
   }
 
-  // Handle Rescheduling / Updates
-  if (data.serviceId) updatePayload.serviceId = data.serviceId;
-  if (data.slotId) updatePayload.slotId = data.slotId;
-  if (data.bookingDate) updatePayload.bookingDate = new Date(data.bookingDate);
-
-  // 4. Update Slot Count if slotId changed
-  if (data.slotId && data.slotId !== booking.slotId) {
-    await prisma.$transaction([
-      // Decrement old slot
-      prisma.slot.update({
-        where: { id: booking.slotId },
-        data: { bookedCount: { decrement: 1 } }
-      }),
-      // Increment new slot
-      prisma.slot.update({
-        where: { id: data.slotId },
-        data: { bookedCount: { increment: 1 } }
-      }),
-      // Update booking
-      prisma.booking.update({
-        where: { id: bookingId },
-        data: updatePayload
-      })
+  const slotChanged = !!data.slotId && data.slotId !== booking.slotId;
+  const serviceChanged = (!!data.serviceId && data.serviceId !== booking.serviceId)
+    || (!!data.variantId && data.variantId !== booking.items[0]?.variantId);
+  const staffChanged = data.staffId !== undefined && data.staffId !== booking.staffId;
+
+  // 4. Move the slot reservation (and re-check staff) when the slot, service or staff changed
+  if (slotChanged || serviceChanged || staffChanged) {
+    const [slot, service] = await Promise.all([
+      prisma.slot.findUnique({ where: { id: data.slotId ?? booking.slotId } }),
+      serviceChanged
+        ? prisma.service.findUnique({ where: { id: data.serviceId ?? booking.serviceId } })
+        : Promise.resolve(null),
     ]);
+
+    if (!slot || slot.salonId !== booking.salonId) throw createError('Slot not found', 404);
+    if (serviceChanged && (!service || service.salonId !== booking.salonId)) {
+      throw createError('Service not found', 404);
+    }
+
+    const moved = await moveBooking(booking, {
+      slot,
+      service: service ?? undefined,
+      variant: service ? resolveVariant(service, data.variantId) : undefined,
+      staffId: data.staffId,
+    });
+
+    const updated = Object.keys(updatePayload).length > 0
+      ? await prisma.booking.update({ where: { id: bookingId }, data: updatePayload })
+      : moved;
+
+    if (data.serviceStarted) publishBookingEvent(updated);
+
+    return res.json({
+      success: true,
+      message: slotChanged ? 'Booking updated with new slot' : 'Booking updated successfully',
+      booking: updated,
+    });
   } else {
+    if (data.bookingDate) updatePayload.bookingDate = new Date(data.bookingDate);
+
     // Standard update
     const updated = await prisma.booking.update({
       where: { id: bookingId },
       data: updatePayload,
     });
+
+    if (data.serviceStarted) publishBookingEvent(updated);
     
     return res.json({
       success: true,
@@ -418,8 +705,65 @@ router.patch('/:bookingId/update', asyncHandler(async (req: AuthenticatedRequest
       booking: updated,
     });
   }
+}));
+
+/**
+ * GET /api/bookings/:bookingId/notifications
+ * Messages sent about a booking, with their delivery status
+ */
+router.get('/:bookingId/notifications', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: req.params.bookingId },
+    select: { id: true, salonId: true },
+  });
+
+  if (!booking) {
+    throw createError('Booking not found', 404);
+  }
+
+  if (!isSalonStaff(req, booking.salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon staff access required', 403);
+  }
+
+  const messages = await prisma.outboundMessage.findMany({
+    where: { bookingId: booking.id },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({ messages });
+}));
+
+/**
+ * POST /api/bookings/:bookingId/notifications/:messageId/resend
+ * Retry a message that failed to send
+ */
+router.post('/:bookingId/notifications/:messageId/resend', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const message = await prisma.outboundMessage.findUnique({
+    where: { id: req.params.messageId },
+  });
+
+  if (!message || message.bookingId !== req.params.bookingId || !message.salonId) {
+    throw createError('Message not found', 404);
+  }
+
+  if (!isSalonAdmin(req, message.salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  if (message.status !== 'failed') {
+    throw createError('Only failed messages can be resent', 400);
+  }
+
+  const resent = await resendMessage(message.id);
+  if (!resent) {
+    throw createError('This message cannot be resent', 400);
+  }
 
-  res.json({ success: true, message: 'Booking updated with new slot' });
+  res.json({
+    success: true,
+    message: resent.status === 'sent' ? 'Message resent' : 'Message queued for retry',
+    notification: resent,
+  });
 }));
 
 /**
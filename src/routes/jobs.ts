@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, requireSuperAdmin } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { listJobs, runJob } from '../lib/scheduler.js';
+
+const router = Router();
+
+// Super admin only
+router.use(authMiddleware, requireSuperAdmin);
+
+/**
+ * GET /api/jobs
+ * Registered background jobs with their lock and latest run
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const jobs = await Promise.all(listJobs().map(async job => {
+    const [lock, lastRun] = await Promise.all([
+      prisma.jobLock.findUnique({ where: { name: job.name } }),
+      prisma.jobRun.findFirst({ where: { job: job.name }, orderBy: { startedAt: 'desc' } }),
+    ]);
+
+    return {
+      name: job.name,
+      intervalMs: job.intervalMs,
+      lock: lock && lock.lockedUntil > new Date() ? lock : null,
+      lastRun,
+    };
+  }));
+
+  res.json({ data: jobs });
+}));
+
+/**
+ * GET /api/jobs/runs
+ * History of job runs, newest first
+ */
+router.get('/runs', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const schema = z.object({
+    job: z.string().optional(),
+    status: z.enum(['running', 'succeeded', 'failed']).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  });
+
+  const { job, status, page, limit } = schema.parse(req.query);
+  const where = { ...(job && { job }), ...(status && { status }) };
+
+  const [runs, total] = await Promise.all([
+    prisma.jobRun.findMany({
+      where,
+      orderBy: { startedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.jobRun.count({ where }),
+  ]);
+
+  res.json({
+    data: runs,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+}));
+
+/**
+ * POST /api/jobs/:name/run
+ * Run a job now instead of waiting for its next turn
+ */
+router.post('/:name/run', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  if (!listJobs().some(job => job.name === req.params.name)) {
+    throw createError('Job not found', 404);
+  }
+
+  // Manual runs are always recorded, even when there was nothing to do
+  const run = await runJob(req.params.name, { recordIdle: true });
+  if (!run) {
+    throw createError('Job is already running', 409, 'JOB_LOCKED');
+  }
+
+  res.json({ success: true, run });
+}));
+
+export default router;
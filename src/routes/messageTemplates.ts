@@ -0,0 +1,191 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, isSalonAdmin, isSuperAdmin } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { appointmentData } from '../lib/bookings.js';
+import { AppointmentData } from '../lib/notifications/index.js';
+import {
+  EDITABLE_TYPES,
+  EditableType,
+  TEMPLATE_PLACEHOLDERS,
+  defaultTemplate,
+  findTemplate,
+  formattingLocale,
+  localeFallbacks,
+  renderTemplate,
+  templateErrors,
+} from '../lib/notifications/messages.js';
+import { canonicalLocale, isValidLocale, zonedParts, zonedTimeToUtc } from '../lib/time.js';
+
+const router = Router({ mergeParams: true });
+
+router.use(authMiddleware);
+
+const localeSchema = z.string().refine(isValidLocale, 'Invalid locale').transform(canonicalLocale);
+
+const templateSchema = z.object({
+  subject: z.string().min(1).max(200),
+  body: z.string().min(1).max(1600),
+});
+
+function assertSalonAdmin(req: AuthenticatedRequest, salonId: string): void {
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+}
+
+/**
+ * Reject templates that use placeholders the type doesn't have
+ */
+function assertValidTemplate(type: EditableType, template: { subject: string; body: string }): void {
+  const errors = [...templateErrors(type, template.subject), ...templateErrors(type, template.body)];
+  if (errors.length > 0) {
+    throw createError(errors.join('. '), 400, 'INVALID_TEMPLATE');
+  }
+}
+
+/**
+ * GET /api/salons/:salonId/message-templates
+ * The salon's own templates, the platform defaults and the placeholders each type accepts
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const templates = await prisma.messageTemplate.findMany({
+    where: { salonId },
+    orderBy: [{ type: 'asc' }, { locale: 'asc' }],
+  });
+
+  res.json({
+    data: templates,
+    types: EDITABLE_TYPES.map(type => ({
+      type,
+      placeholders: TEMPLATE_PLACEHOLDERS[type],
+      default: defaultTemplate(type),
+    })),
+  });
+}));
+
+/**
+ * PUT /api/salons/:salonId/message-templates/:type/:locale
+ * Create or replace the salon's wording for a notification type in one language
+ */
+router.put('/:type/:locale', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const type = z.enum(EDITABLE_TYPES).parse(req.params.type);
+  const locale = localeSchema.parse(req.params.locale);
+  const data = templateSchema.parse(req.body);
+  assertValidTemplate(type, data);
+
+  const salon = await prisma.salon.findUnique({ where: { id: salonId }, select: { id: true } });
+  if (!salon) throw createError('Salon not found', 404);
+
+  const template = await prisma.messageTemplate.upsert({
+    where: { salonId_type_locale: { salonId, type, locale } },
+    create: { salonId, type, locale, ...data, updatedBy: req.user!.userId },
+    update: { ...data, updatedBy: req.user!.userId },
+  });
+
+  res.json({ success: true, template });
+}));
+
+/**
+ * DELETE /api/salons/:salonId/message-templates/:type/:locale
+ * Go back to the platform default wording
+ */
+router.delete('/:type/:locale', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const type = z.enum(EDITABLE_TYPES).parse(req.params.type);
+  const locale = localeSchema.parse(req.params.locale);
+
+  const { count } = await prisma.messageTemplate.deleteMany({ where: { salonId, type, locale } });
+  if (count === 0) throw createError('Template not found', 404);
+
+  res.json({ success: true, message: 'Template removed; the default wording applies' });
+}));
+
+/**
+ * POST /api/salons/:salonId/message-templates/preview
+ * Render a template against one of the salon's bookings (or a made-up one).
+ * Without a subject and body, previews the wording that would be sent now.
+ */
+router.post('/preview', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const schema = z.object({
+    type: z.enum(EDITABLE_TYPES),
+    locale: localeSchema.optional(),
+    subject: z.string().min(1).max(200).optional(),
+    body: z.string().min(1).max(1600).optional(),
+    bookingId: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
+  }).refine(d => !d.subject === !d.body, { message: 'Provide both subject and body, or neither', path: ['body'] });
+
+  const data = schema.parse(req.body);
+
+  const salon = await prisma.salon.findUnique({
+    where: { id: salonId },
+    include: { services: { where: { isActive: true }, take: 1 } },
+  });
+  if (!salon) throw createError('Salon not found', 404);
+
+  const locales = localeFallbacks(data.locale, salon.locale);
+
+  let template;
+  if (data.subject && data.body) {
+    assertValidTemplate(data.type, { subject: data.subject, body: data.body });
+    template = { locale: locales[0], subject: data.subject, body: data.body, custom: true };
+  } else {
+    template = await findTemplate(data.type, salonId, locales);
+  }
+
+  const booking = await prisma.booking.findFirst({
+    where: { salonId, ...(data.bookingId && { id: data.bookingId }) },
+    include: {
+      user: { select: { fullName: true } },
+      service: { select: { name: true } },
+      staff: { select: { fullName: true } },
+    },
+    orderBy: { startTime: 'desc' },
+  });
+  if (data.bookingId && !booking) throw createError('Booking not found', 404);
+
+  let sample: AppointmentData;
+  if (booking) {
+    sample = appointmentData(booking, salon, booking.user.fullName);
+  } else {
+    // A salon without bookings yet gets a made-up one for tomorrow morning
+    const tomorrow = zonedParts(new Date(Date.now() + 24 * 60 * 60000), salon.timezone).date;
+    sample = {
+      customerName: 'Alex Smith',
+      dateTime: zonedTimeToUtc(tomorrow, '10:00', salon.timezone),
+      timeZone: salon.timezone,
+      salonName: salon.name,
+      serviceName: salon.services[0]?.name ?? 'Haircut',
+      staffName: null,
+    };
+  }
+
+  const rendered = renderTemplate(
+    data.type,
+    template,
+    // The review link is shown with a placeholder token rather than a working one
+    { ...sample, holdMinutes: salon.waitlistHoldMinutes, reviewToken: 'preview' },
+    { locale: formattingLocale(template, locales), bookingId: booking?.id }
+  );
+
+  res.json({
+    locale: template.locale,
+    custom: template.custom,
+    bookingId: booking?.id ?? null,
+    ...rendered,
+  });
+}));
+
+export default router;
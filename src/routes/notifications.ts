@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/notifications
+ * The current user's notification feed, newest first
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { unread, salonId, page = '1', limit = '20' } = req.query;
+
+  const pageNum = Math.max(1, parseInt(page as string));
+  const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+  const skip = (pageNum - 1) * limitNum;
+
+  const where: any = { userId: req.user!.userId };
+  if (unread === 'true') where.readAt = null;
+  if (salonId) where.salonId = salonId as string;
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      skip,
+      take: limitNum,
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({ where: { userId: req.user!.userId, readAt: null } }),
+  ]);
+
+  res.json({
+    data: notifications,
+    unreadCount,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+    },
+  });
+}));
+
+/**
+ * GET /api/notifications/unread-count
+ * Unread notifications in total and per salon (for badges)
+ */
+router.get('/unread-count', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const groups = await prisma.notification.groupBy({
+    by: ['salonId'],
+    where: { userId: req.user!.userId, readAt: null },
+    _count: { _all: true },
+  });
+
+  res.json({
+    unreadCount: groups.reduce((sum, group) => sum + group._count._all, 0),
+    salons: groups
+      .filter(group => group.salonId)
+      .map(group => ({ salonId: group.salonId, unreadCount: group._count._all })),
+  });
+}));
+
+/**
+ * POST /api/notifications/read
+ * Mark notifications as read: the given ids, or all of them (optionally for one salon)
+ */
+router.post('/read', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const schema = z.object({
+    ids: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/)).min(1).max(100).optional(),
+    salonId: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
+  });
+
+  const { ids, salonId } = schema.parse(req.body ?? {});
+
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      userId: req.user!.userId,
+      readAt: null,
+      ...(ids && { id: { in: ids } }),
+      ...(salonId && { salonId }),
+    },
+    data: { readAt: new Date() },
+  });
+
+  res.json({ success: true, updated: count });
+}));
+
+/**
+ * POST /api/notifications/:notificationId/read
+ * Mark one notification as read
+ */
+router.post('/:notificationId/read', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const notification = await prisma.notification.findUnique({
+    where: { id: req.params.notificationId },
+  });
+
+  if (!notification || notification.userId !== req.user!.userId) {
+    throw createError('Notification not found', 404);
+  }
+
+  const updated = notification.readAt
+    ? notification
+    : await prisma.notification.update({
+      where: { id: notification.id },
+      data: { readAt: new Date() },
+    });
+
+  res.json({ success: true, notification: updated });
+}));
+
+export default router;
@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, isSalonAdmin, isSuperAdmin } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { normalizeCode } from '../lib/promoCodes.js';
+
+// A salon's own codes
+const router = Router({ mergeParams: true });
+// Platform-wide codes (no salonId), which only super admins manage. Same
+// handlers; they tell the two apart by whether there is a salonId.
+export const platformPromoCodeRoutes = Router();
+
+router.use(authMiddleware);
+platformPromoCodeRoutes.use(authMiddleware);
+
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/);
+
+const promoFields = {
+  description: z.string().trim().max(200).nullable().optional(),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().min(1).nullable().optional(),
+  serviceIds: z.array(objectId).max(100).optional(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  isActive: z.boolean().optional(),
+};
+
+const createSchema = z.object({
+  code: z.string().trim().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/, 'Codes may only contain letters, digits, - and _'),
+  discountType: z.enum(['percentage', 'fixed']),
+  discountValue: z.number().positive(),
+  ...promoFields,
+});
+
+function assertPromoAdmin(req: AuthenticatedRequest, salonId: string | undefined) {
+  const allowed = salonId ? isSalonAdmin(req, salonId) || isSuperAdmin(req) : isSuperAdmin(req);
+  if (!allowed) throw createError(salonId ? 'Salon admin access required' : 'Super admin access required', 403);
+}
+
+/**
+ * Checks shared by create and update, on the code as it will be saved
+ */
+async function assertValidPromo(
+  salonId: string | undefined,
+  promo: Pick<Prisma.PromoCodeUncheckedCreateInput, 'discountType' | 'discountValue' | 'startsAt' | 'endsAt' | 'serviceIds'>
+) {
+  if (promo.discountType === 'percentage' && promo.discountValue > 100) {
+    throw createError('A percentage discount cannot be more than 100', 400);
+  }
+  if (promo.startsAt && promo.endsAt && promo.startsAt >= promo.endsAt) {
+    throw createError('endsAt must be after startsAt', 400);
+  }
+
+  const serviceIds = Array.isArray(promo.serviceIds) ? promo.serviceIds : [];
+  if (serviceIds.length === 0) return;
+
+  // Services belong to one salon, so only a salon's own codes can be limited to some
+  if (!salonId) throw createError('Platform-wide codes cannot be limited to services', 400);
+
+  const count = await prisma.service.count({ where: { id: { in: serviceIds }, salonId } });
+  if (count !== new Set(serviceIds).size) throw createError('Service not found', 404);
+}
+
+/**
+ * Run a promo code write, turning a duplicate code into a 409
+ */
+async function uniqueCode<T>(write: Promise<T>): Promise<T> {
+  try {
+    return await write;
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw createError('A promo code with this code already exists', 409, 'PROMO_CODE_EXISTS');
+    }
+    throw err;
+  }
+}
+
+/**
+ * GET /api/salons/:salonId/promo-codes
+ * GET /api/promo-codes
+ * The salon's (or the platform's) promo codes, newest first
+ */
+const listPromoCodes = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const salonId = req.params.salonId as string | undefined;
+  assertPromoAdmin(req, salonId);
+
+  const promoCodes = await prisma.promoCode.findMany({
+    where: { salonId: salonId ?? null },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({ data: promoCodes });
+});
+
+/**
+ * POST /api/salons/:salonId/promo-codes
+ * POST /api/promo-codes
+ * Create a promo code
+ */
+const createPromoCode = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const salonId = req.params.salonId as string | undefined;
+  assertPromoAdmin(req, salonId);
+
+  const data = createSchema.parse(req.body);
+  await assertValidPromo(salonId, data);
+
+  const promoCode = await uniqueCode(prisma.promoCode.create({
+    data: {
+      ...data,
+      code: normalizeCode(data.code),
+      salonId: salonId ?? null,
+      createdBy: req.user!.userId,
+    },
+  }));
+
+  res.status(201).json({ success: true, promoCode });
+});
+
+/**
+ * GET /api/salons/:salonId/promo-codes/report
+ * GET /api/promo-codes/report
+ * Redemptions and the discount given per code, optionally within a date range.
+ * A salon's report includes the platform-wide codes used at the salon.
+ */
+const promoCodeReport = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const salonId = req.params.salonId as string | undefined;
+  assertPromoAdmin(req, salonId);
+
+  const { from, to } = z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+  }).parse(req.query);
+
+  const where: Prisma.PromoRedemptionWhereInput = {
+    ...(salonId ? { salonId } : { promoCode: { salonId: null } }),
+    ...((from || to) && { createdAt: { gte: from, lte: to } }),
+  };
+
+  const [groups, bookingTotals] = await Promise.all([
+    prisma.promoRedemption.groupBy({
+      by: ['promoCodeId'],
+      where,
+      _count: { _all: true },
+      _sum: { discount: true },
+    }),
+    prisma.promoRedemption.findMany({
+      where,
+      select: { promoCodeId: true, bookingId: true },
+    }),
+  ]);
+
+  const [promoCodes, bookings] = await Promise.all([
+    prisma.promoCode.findMany({
+      where: { id: { in: groups.map(g => g.promoCodeId) } },
+      select: { id: true, code: true, salonId: true, description: true, discountType: true, discountValue: true, isActive: true },
+    }),
+    prisma.booking.findMany({
+      where: { id: { in: bookingTotals.map(r => r.bookingId) } },
+      select: { id: true, totalPrice: true },
+    }),
+  ]);
+
+  const totalPrices = new Map(bookings.map(b => [b.id, b.totalPrice]));
+  const revenue = new Map<string, number>();
+  for (const { promoCodeId, bookingId } of bookingTotals) {
+    revenue.set(promoCodeId, (revenue.get(promoCodeId) ?? 0) + (totalPrices.get(bookingId) ?? 0));
+  }
+
+  const codesById = new Map(promoCodes.map(p => [p.id, p]));
+  const data = groups
+    .map(group => ({
+      promoCode: codesById.get(group.promoCodeId) ?? null,
+      redemptions: group._count._all,
+      totalDiscount: group._sum.discount ?? 0,
+      // What the customers paid for the discounted visits
+      totalRevenue: revenue.get(group.promoCodeId) ?? 0,
+    }))
+    .sort((a, b) => b.redemptions - a.redemptions);
+
+  res.json({ data });
+});
+
+/**
+ * PUT /api/salons/:salonId/promo-codes/:promoCodeId
+ * PUT /api/promo-codes/:promoCodeId
+ * Update a promo code. The code and its discount can't change once it has been used.
+ */
+const updatePromoCode = asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const salonId = req.params.salonId as string | undefined;
+  assertPromoAdmin(req, salonId);
+
+  const data = createSchema.partial().parse(req.body);
+
+  const existing = await prisma.promoCode.findUnique({ where: { id: req.params.promoCodeId } });
+  if (!existing || existing.salonId !== (salonId ?? null)) throw createError('Promo code not found', 404);
+
+  const changesTerms = (data.code !== undefined && normalizeCode(data.code) !== existing.code)
+    || (data.discountType !== undefined && data.discountType !== existing.discountType)
+    || (data.discountValue !== undefined && data.discountValue !== existing.discountValue);
+  if (changesTerms && existing.redemptionCount > 0) {
+    throw createError('A promo code that has been used cannot have its code or discount changed', 400, 'PROMO_CODE_USED');
+  }
+
+  await assertValidPromo(salonId, { ...existing, ...data });
+
+  const promoCode = await uniqueCode(prisma.promoCode.update({
+    where: { id: existing.id },
+    data: { ...data, ...(data.code !== undefined && { code: normalizeCode(data.code) }) },
+  }));
+
+  res.json({ success: true, promoCode });
+});
+
+for (const promoRouter of [router, platformPromoCodeRoutes]) {
+  promoRouter.get('/', listPromoCodes);
+  promoRouter.post('/', createPromoCode);
+  promoRouter.get('/report', promoCodeReport);
+  promoRouter.put('/:promoCodeId', updatePromoCode);
+}
+
+export default router;
@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { prisma } from '../lib/prisma.js';
+import { createReview, verifyReviewRequestToken } from '../lib/reviews.js';
+import { bookingServiceName } from '../lib/bookings.js';
+
+const router = Router();
+
+const ratingSchema = z.number().int().min(1).max(5);
+
+/**
+ * The booking a review link is for; links work without logging in
+ */
+async function bookingForToken(token: string) {
+  const bookingId = verifyReviewRequestToken(token);
+  if (!bookingId) {
+    throw createError('This review link is invalid or has expired', 400, 'INVALID_REVIEW_LINK');
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      salon: { select: { id: true, name: true, slug: true, imageUrl: true, timezone: true } },
+      service: { select: { name: true } },
+      staff: { select: { id: true, fullName: true } },
+      review: true,
+    },
+  });
+  if (!booking) throw createError('Booking not found', 404);
+
+  return booking;
+}
+
+/**
+ * GET /api/review-requests/:token
+ * The visit a review link is for, and whether it has been reviewed yet
+ */
+router.get('/:token', asyncHandler(async (req, res) => {
+  const booking = await bookingForToken(req.params.token);
+
+  res.json({
+    booking: {
+      id: booking.id,
+      startTime: booking.startTime,
+      serviceName: bookingServiceName(booking),
+      salon: booking.salon,
+      staff: booking.staff,
+    },
+    reviewed: booking.review !== null,
+  });
+}));
+
+/**
+ * POST /api/review-requests/:token
+ * Review the visit through the link in a review request
+ */
+router.post('/:token', asyncHandler(async (req, res) => {
+  const schema = z.object({
+    rating: ratingSchema,
+    staffRating: ratingSchema.optional(),
+    comment: z.string().trim().max(2000).optional(),
+  });
+
+  const input = schema.parse(req.body);
+  const booking = await bookingForToken(req.params.token);
+
+  const review = await createReview(booking, input);
+
+  res.status(201).json({ success: true, review });
+}));
+
+export default router;
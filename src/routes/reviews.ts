@@ -0,0 +1,161 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import {
+  authMiddleware,
+  AuthenticatedRequest,
+  isSalonAdmin,
+  isSalonStaff,
+  isSuperAdmin,
+  optionalAuth,
+} from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { createReview, refreshSalonRating } from '../lib/reviews.js';
+
+const router = Router({ mergeParams: true });
+
+const ratingSchema = z.number().int().min(1).max(5);
+
+/**
+ * GET /api/salons/:salonId/reviews
+ * Reviews of a salon, newest first. Staff can include hidden ones.
+ */
+router.get('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  const { includeHidden, page = '1', limit = '20' } = req.query;
+
+  const pageNum = Math.max(1, parseInt(page as string));
+  const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+  const skip = (pageNum - 1) * limitNum;
+
+  const salon = await prisma.salon.findUnique({
+    where: { id: salonId },
+    select: { ratingAverage: true, reviewCount: true },
+  });
+  if (!salon) throw createError('Salon not found', 404);
+
+  const canSeeHidden = includeHidden === 'true' && (isSalonStaff(req, salonId) || isSuperAdmin(req));
+  const where = { salonId, ...(!canSeeHidden && { status: 'visible' as const }) };
+
+  const [reviews, total] = await Promise.all([
+    prisma.review.findMany({
+      where,
+      skip,
+      take: limitNum,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        user: { select: { fullName: true, avatarUrl: true } },
+        staff: { select: { id: true, fullName: true } },
+      },
+    }),
+    prisma.review.count({ where }),
+  ]);
+
+  res.json({
+    data: reviews,
+    ratingAverage: salon.ratingAverage,
+    reviewCount: salon.reviewCount,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+    },
+  });
+}));
+
+/**
+ * POST /api/salons/:salonId/reviews
+ * Review a completed booking (one review per booking)
+ */
+router.post('/', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+
+  const schema = z.object({
+    bookingId: z.string().regex(/^[0-9a-fA-F]{24}$/),
+    rating: ratingSchema,
+    staffRating: ratingSchema.optional(),
+    comment: z.string().trim().max(2000).optional(),
+  });
+
+  const { bookingId, ...input } = schema.parse(req.body);
+
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+  if (!booking || booking.salonId !== salonId || booking.userId !== req.user!.userId) {
+    throw createError('Booking not found', 404);
+  }
+
+  const review = await createReview(booking, input);
+
+  res.status(201).json({ success: true, review });
+}));
+
+/**
+ * PUT /api/salons/:salonId/reviews/:reviewId/reply
+ * Post or edit the salon's public reply to a review
+ */
+router.put('/:reviewId/reply', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, reviewId } = req.params;
+
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const { reply } = z.object({ reply: z.string().trim().min(1).max(2000) }).parse(req.body);
+
+  const review = await prisma.review.findUnique({ where: { id: reviewId } });
+  if (!review || review.salonId !== salonId) {
+    throw createError('Review not found', 404);
+  }
+
+  const updated = await prisma.review.update({
+    where: { id: review.id },
+    data: { reply, repliedBy: req.user!.userId, repliedAt: new Date() },
+  });
+
+  res.json({ success: true, review: updated });
+}));
+
+/**
+ * PATCH /api/salons/:salonId/reviews/:reviewId/moderation
+ * Hide an abusive review, or show it again (super admin only)
+ */
+router.patch('/:reviewId/moderation', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, reviewId } = req.params;
+
+  if (!isSuperAdmin(req)) {
+    throw createError('Super admin access required', 403);
+  }
+
+  const schema = z.object({
+    status: z.enum(['visible', 'hidden']),
+    reason: z.string().max(500).optional(),
+  });
+
+  const { status, reason } = schema.parse(req.body);
+
+  const review = await prisma.review.findUnique({ where: { id: reviewId } });
+  if (!review || review.salonId !== salonId) {
+    throw createError('Review not found', 404);
+  }
+
+  const updated = await prisma.review.update({
+    where: { id: review.id },
+    data: {
+      status,
+      moderationReason: status === 'hidden' ? reason : null,
+      moderatedBy: req.user!.userId,
+      moderatedAt: new Date(),
+    },
+  });
+
+  await refreshSalonRating(salonId);
+
+  res.json({
+    success: true,
+    message: status === 'hidden' ? 'Review hidden' : 'Review visible again',
+    review: updated,
+  });
+}));
+
+export default router;
@@ -4,8 +4,19 @@ import userRoutes from './users.js';
 import salonRoutes from './salons.js';
 import bookingRoutes from './bookings.js';
 import salonStaffRoutes from './salonStaff.js';
+import salonHoursRoutes from './salonHours.js';
+import messageTemplateRoutes from './messageTemplates.js';
 import uploadRoutes from './upload.js';
 import salonPaymentRoutes from './salonPayment.js';
+import waitlistRoutes from './waitlist.js';
+import jobRoutes from './jobs.js';
+import smsRoutes from './sms.js';
+import notificationRoutes from './notifications.js';
+import salonEventRoutes from './salonEvents.js';
+import reviewRoutes from './reviews.js';
+import reviewRequestRoutes from './reviewRequests.js';
+import serviceCategoryRoutes from './serviceCategories.js';
+import promoCodeRoutes, { platformPromoCodeRoutes } from './promoCodes.js';
 
 const router = Router();
 
@@ -14,8 +25,20 @@ router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/salons', salonRoutes);
 router.use('/salons/:salonId/staff', salonStaffRoutes);
+router.use('/salons/:salonId/hours-exceptions', salonHoursRoutes);
+router.use('/salons/:salonId/message-templates', messageTemplateRoutes);
+router.use('/salons/:salonId/events', salonEventRoutes);
+router.use('/salons/:salonId/reviews', reviewRoutes);
+router.use('/salons/:salonId/service-categories', serviceCategoryRoutes);
+router.use('/salons/:salonId/promo-codes', promoCodeRoutes);
 router.use('/bookings', bookingRoutes);
 router.use('/upload', uploadRoutes);
 router.use('/salon-payments', salonPaymentRoutes);
+router.use('/waitlist', waitlistRoutes);
+router.use('/jobs', jobRoutes);
+router.use('/sms', smsRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/review-requests', reviewRequestRoutes);
+router.use('/promo-codes', platformPromoCodeRoutes);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, isSalonStaff, isSuperAdmin } from '../middleware/auth.js';
+import {
+  latestSalonEventSequence,
+  onSalonEvent,
+  salonEventExists,
+  salonEventsAfter,
+} from '../lib/salonEvents.js';
+
+const router = Router({ mergeParams: true });
+
+// Catches events published by other server instances
+const POLL_INTERVAL_MS = 5000;
+// Keeps proxies from closing an idle connection
+const HEARTBEAT_INTERVAL_MS = 25000;
+// How long browsers wait before reconnecting
+const RETRY_MS = 3000;
+
+/**
+ * GET /api/salons/:salonId/events
+ * Server-Sent Events stream of the salon's booking and slot capacity changes.
+ * Reconnecting clients send Last-Event-ID (or ?lastEventId=) to pick up where
+ * they left off; a `reset` event means that point is gone and the client
+ * should reload its data. Needs the Authorization header, so browsers use a
+ * fetch-based EventSource rather than the built-in one.
+ */
+router.get('/', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+
+  if (!isSalonStaff(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon staff access required', 403);
+  }
+
+  // Event ids are the salon's event sequence numbers
+  const lastEventId = req.header('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+  if (lastEventId && !/^\d{1,15}$/.test(lastEventId)) {
+    throw createError('Invalid Last-Event-ID', 400);
+  }
+
+  const resumable = lastEventId ? await salonEventExists(salonId, Number(lastEventId)) : false;
+  let cursor = resumable ? Number(lastEventId) : await latestSalonEventSequence(salonId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop nginx buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  if (lastEventId && !resumable) {
+    res.write(`event: reset\ndata: {}\n\n`);
+  }
+
+  let closed = false;
+  let sending = false;
+  let again = false;
+
+  // Send everything after the cursor; calls that arrive mid-send run once more afterwards
+  const flush = async () => {
+    if (sending) {
+      again = true;
+      return;
+    }
+    sending = true;
+
+    try {
+      do {
+        again = false;
+        let events = await salonEventsAfter(salonId, cursor);
+        while (events.length > 0 && !closed) {
+          for (const event of events) {
+            res.write(`id: ${event.sequence}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...(event.data as object), createdAt: event.createdAt })}\n\n`);
+            cursor = event.sequence;
+          }
+          events = await salonEventsAfter(salonId, cursor);
+        }
+      } while (again && !closed);
+    } catch (err) {
+      console.error('Salon event stream failed:', err);
+    } finally {
+      sending = false;
+    }
+  };
+
+  const unsubscribe = onSalonEvent(salonId, () => void flush());
+  const poll = setInterval(() => void flush(), POLL_INTERVAL_MS);
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(poll);
+    clearInterval(heartbeat);
+  });
+
+  await flush();
+}));
+
+export default router;
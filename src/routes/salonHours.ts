@@ -0,0 +1,172 @@
+import { Router } from 'express';
+import { Salon } from '@prisma/client';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, isSalonAdmin, isSuperAdmin } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { findHoursExceptions, toMinutes } from '../lib/hours.js';
+import { SLOT_GENERATION_LOCK_TTL_MS, SlotPlanResult, regenerateSlots, slotGenerationLock } from '../lib/slotGeneration.js';
+import { withLock } from '../lib/scheduler.js';
+import { toDateKey, zonedParts } from '../lib/time.js';
+
+const router = Router({ mergeParams: true });
+
+// An exception request may cover at most this many days
+const MAX_EXCEPTION_DAYS = 366;
+
+/**
+ * Change a salon's hours exceptions and redo its empty slots on the dates
+ * they cover, from today on, holding the salon's slot lock so the scheduled
+ * job can't generate from the old hours in between. Null when the lock is taken.
+ */
+async function withSlotsReplanned<T>(
+  salon: Salon,
+  startDate: string,
+  endDate: string,
+  change: () => Promise<T>
+): Promise<{ changed: T; slots: SlotPlanResult } | null> {
+  return withLock(slotGenerationLock(salon.id), SLOT_GENERATION_LOCK_TTL_MS, async () => {
+    const changed = await change();
+
+    const today = zonedParts(new Date(), salon.timezone).date;
+    const from = startDate > today ? startDate : today;
+    const slots = from <= endDate
+      ? await regenerateSlots(salon, from, endDate)
+      : { created: 0, updated: 0, deleted: 0 };
+
+    return { changed, slots };
+  });
+}
+
+/**
+ * GET /api/salons/:salonId/hours-exceptions
+ * Upcoming closures and special hours (public)
+ */
+router.get('/', asyncHandler(async (req, res) => {
+  const { salonId } = req.params;
+  const { from, to } = req.query;
+
+  const salon = await prisma.salon.findUnique({ where: { id: salonId }, select: { timezone: true } });
+  if (!salon) throw createError('Salon not found', 404);
+
+  const fromDate = toDateKey((from as string) || zonedParts(new Date(), salon.timezone).date);
+  const toDate = to ? toDateKey(to as string) : new Date(fromDate.getTime() + MAX_EXCEPTION_DAYS * 24 * 60 * 60000);
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+    throw createError('Invalid date', 400);
+  }
+
+  const exceptions = await findHoursExceptions(salonId, fromDate, toDate);
+
+  res.json({ data: exceptions });
+}));
+
+/**
+ * POST /api/salons/:salonId/hours-exceptions
+ * Close the salon or set special hours on a date (or range of dates). Empty
+ * slots on those dates follow the new hours; booked ones stay, and the
+ * bookings that fall outside the new hours are returned.
+ */
+router.post('/', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+  const schema = z.object({
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+    closed: z.boolean().default(true),
+    open: time.optional(),
+    close: time.optional(),
+    reason: z.string().max(200).optional(),
+  }).refine(
+    d => d.closed || (d.open && d.close && toMinutes(d.open) < toMinutes(d.close)),
+    { message: 'Special hours need an open time before the close time', path: ['open'] }
+  );
+
+  const data = schema.parse(req.body);
+
+  const salon = await prisma.salon.findUnique({ where: { id: salonId } });
+  if (!salon) throw createError('Salon not found', 404);
+
+  const first = toDateKey(data.startDate);
+  const last = toDateKey(data.endDate ?? data.startDate);
+  const days = (last.getTime() - first.getTime()) / (24 * 60 * 60000) + 1;
+  if (isNaN(days) || days < 1) throw createError('End date must not be before start date', 400);
+  if (days > MAX_EXCEPTION_DAYS) throw createError(`At most ${MAX_EXCEPTION_DAYS} days at a time`, 400);
+
+  const dates = Array.from({ length: days }, (_, i) => new Date(first.getTime() + i * 24 * 60 * 60000));
+  const hours = {
+    closed: data.closed,
+    open: data.closed ? null : data.open!,
+    close: data.closed ? null : data.close!,
+    reason: data.reason,
+  };
+
+  const saved = await withSlotsReplanned(salon, data.startDate, data.endDate ?? data.startDate, () =>
+    prisma.$transaction(dates.map(date =>
+      prisma.salonHoursException.upsert({
+        where: { salonId_date: { salonId, date } },
+        create: { salonId, date, ...hours, createdBy: req.user!.userId },
+        update: hours,
+      })
+    ))
+  );
+  if (!saved) {
+    throw createError('Slots are being generated right now, try again shortly', 409, 'SLOT_GENERATION_RUNNING');
+  }
+  const { changed: exceptions, slots } = saved;
+
+  // Bookings that no longer fit, so staff can contact those customers
+  const bookings = await prisma.booking.findMany({
+    where: { salonId, status: 'booked', bookingDate: { gte: first, lte: last } },
+    include: {
+      user: { select: { id: true, fullName: true, phone: true } },
+      service: { select: { name: true } },
+    },
+    orderBy: { startTime: 'asc' },
+  });
+
+  const affectedBookings = bookings.filter(booking => {
+    if (data.closed) return true;
+
+    const start = zonedParts(booking.startTime, salon.timezone).minutes;
+    const end = start + (booking.endTime.getTime() - booking.startTime.getTime()) / 60000;
+    return start < toMinutes(data.open!) || end > toMinutes(data.close!);
+  });
+
+  res.status(201).json({ success: true, exceptions, slots, affectedBookings });
+}));
+
+/**
+ * DELETE /api/salons/:salonId/hours-exceptions/:exceptionId
+ * Remove an exception so the weekly hours (and their slots) apply again
+ */
+router.delete('/:exceptionId', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, exceptionId } = req.params;
+
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const exception = await prisma.salonHoursException.findUnique({ where: { id: exceptionId } });
+  if (!exception || exception.salonId !== salonId) {
+    throw createError('Hours exception not found', 404);
+  }
+
+  const salon = await prisma.salon.findUniqueOrThrow({ where: { id: salonId } });
+  const date = exception.date.toISOString().split('T')[0];
+
+  const removed = await withSlotsReplanned(salon, date, date, () =>
+    prisma.salonHoursException.delete({ where: { id: exceptionId } })
+  );
+  if (!removed) {
+    throw createError('Slots are being generated right now, try again shortly', 409, 'SLOT_GENERATION_RUNNING');
+  }
+
+  res.json({ success: true, message: 'Hours exception removed', slots: removed.slots });
+}));
+
+export default router;
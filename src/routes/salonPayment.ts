@@ -1,6 +1,7 @@
 import prisma from "@/lib/prisma";
 import { AuthenticatedRequest, authMiddleware, requireSuperAdmin } from "@/middleware/auth";
 import { asyncHandler } from "@/middleware/errorHandler";
+import { notifySalonMembers } from "@/lib/notifications";
 import { PaymentStatus } from "@prisma/client";
 import { Router } from "express";
 import { z } from 'zod';
@@ -153,6 +154,15 @@ router.patch('/:id/status', authMiddleware, asyncHandler(async (req: Authenticat
     });
   }
 
+  if (status === 'verified' || status === 'rejected') {
+    notifySalonMembers({
+      type: 'payment_status',
+      roles: ['salon_admin'],
+      data: { salonName: currentPayment.salon.name, amountPaid: currentPayment.amountPaid, status },
+      salonId: currentPayment.salonId,
+    }).catch(err => console.error('Notification Background Task Failed:', err));
+  }
+
   res.json({ 
     success: true, 
     message: `Payment marked as ${status}`, 
@@ -1,8 +1,13 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
-import { authMiddleware, AuthenticatedRequest, isSalonAdmin, isSuperAdmin } from '../middleware/auth.js';
+import { authMiddleware, AuthenticatedRequest, isSalonAdmin, isSalonStaff, isSuperAdmin } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { DAYS_OF_WEEK, findHoursExceptions, toMinutes } from '../lib/hours.js';
+import { isSpanFree } from '../lib/salonSearch.js';
+import { slotLocalTimes, slotStartDateTime } from '../lib/slots.js';
+import { findStaffConflicts, performsService, staffServiceTerms, staffShiftForDate } from '../lib/staff.js';
+import { zonedDayRange, zonedParts } from '../lib/time.js';
 
 const router = Router({ mergeParams: true });
 
@@ -99,6 +104,207 @@ router.post('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
   res.status(201).json({ success: true, data: membership });
 }));
 
+/**
+ * PUT /api/salons/:salonId/staff/:membershipId/hours
+ * Set a staff member's weekly working hours (null follows the salon's hours)
+ */
+router.put('/:membershipId/hours', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, membershipId } = req.params;
+
+  const membership = await prisma.salonMembership.findFirst({
+    where: { id: membershipId, salonId },
+  });
+
+  if (!membership) {
+    throw createError('Staff member not found', 404);
+  }
+
+  // Salon admins manage everyone's hours, staff may manage their own
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req) && membership.userId !== req.user!.userId) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const schema = z.object({
+    workingHours: z.record(
+      z.string().refine(day => DAYS_OF_WEEK.includes(day), 'Unknown day of the week'),
+      z.object({
+        open: z.string().regex(/^\d{2}:\d{2}$/),
+        close: z.string().regex(/^\d{2}:\d{2}$/),
+        closed: z.boolean(),
+      }).refine(day => day.closed || toMinutes(day.open) < toMinutes(day.close), {
+        message: 'close must be after open',
+        path: ['close'],
+      })
+    ).nullable(),
+  });
+
+  const { workingHours } = schema.parse(req.body);
+
+  const updated = await prisma.salonMembership.update({
+    where: { id: membershipId },
+    data: { workingHours },
+  });
+
+  res.json({ success: true, data: updated });
+}));
+
+/**
+ * PUT /api/salons/:salonId/staff/:membershipId/services
+ * Set the services a staff member performs, with their own price and
+ * duration where they differ. Services with variants take overrides per
+ * variant. An empty list lets them perform every service at standard terms.
+ */
+router.put('/:membershipId/services', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, membershipId } = req.params;
+
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const schema = z.object({
+    services: z.array(z.object({
+      serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/),
+      variantId: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
+      price: z.number().min(0).optional(),
+      durationMinutes: z.number().int().min(5).optional(),
+    })).max(200),
+  });
+
+  const { services } = schema.parse(req.body);
+
+  const membership = await prisma.salonMembership.findFirst({
+    where: { id: membershipId, salonId },
+  });
+
+  if (!membership) {
+    throw createError('Staff member not found', 404);
+  }
+
+  const keys = services.map(s => `${s.serviceId}:${s.variantId ?? ''}`);
+  if (new Set(keys).size !== keys.length) {
+    throw createError('Each service (and variant) can only be listed once', 400);
+  }
+
+  const salonServices = await prisma.service.findMany({
+    where: { salonId, id: { in: services.map(s => s.serviceId) } },
+    select: { id: true, name: true, variants: true },
+  });
+
+  for (const entry of services) {
+    const service = salonServices.find(s => s.id === entry.serviceId);
+    if (!service) throw createError('Service not found', 404);
+
+    if (entry.variantId && !service.variants.some(v => v.id === entry.variantId)) {
+      throw createError(`Variant not found for ${service.name}`, 404);
+    }
+    if (!entry.variantId && service.variants.length > 0 && (entry.price !== undefined || entry.durationMinutes !== undefined)) {
+      throw createError(`${service.name} has variants; set the price and duration per variant`, 400);
+    }
+  }
+
+  const updated = await prisma.salonMembership.update({
+    where: { id: membershipId },
+    data: {
+      services: {
+        set: services.map(s => ({
+          serviceId: s.serviceId,
+          variantId: s.variantId ?? null,
+          price: s.price ?? null,
+          durationMinutes: s.durationMinutes ?? null,
+        })),
+      },
+    },
+  });
+
+  res.json({ success: true, data: updated });
+}));
+
+/**
+ * GET /api/salons/:salonId/staff/:userId/availability
+ * Get a staff member's shift, existing bookings and free slots for a date
+ */
+router.get('/:userId/availability', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, userId } = req.params;
+  const { date, serviceId, variantId } = req.query;
+
+  if (!date) {
+    throw createError('Date query parameter required', 400);
+  }
+
+  const day = new Date(`${date}T00:00:00.000Z`);
+  if (isNaN(day.getTime())) {
+    throw createError('Invalid date', 400);
+  }
+
+  const [membership, service] = await Promise.all([
+    prisma.salonMembership.findFirst({
+      where: { salonId, userId },
+      include: {
+        salon: { select: { operatingHours: true, timezone: true } },
+        user: { select: { id: true, fullName: true, avatarUrl: true } },
+      },
+    }),
+    serviceId
+      ? prisma.service.findFirst({ where: { id: serviceId as string, salonId } })
+      : Promise.resolve(null),
+  ]);
+
+  if (!membership) {
+    throw createError('Staff member not found', 404);
+  }
+  if (serviceId && !service) {
+    throw createError('Service not found', 404);
+  }
+  if (service && !performsService(membership, service.id)) {
+    throw createError('This staff member does not offer this service', 400, 'STAFF_CANNOT_PERFORM');
+  }
+
+  const { timezone } = membership.salon;
+  const range = zonedDayRange(date as string, timezone);
+
+  const [slots, busy, exceptions] = await Promise.all([
+    prisma.slot.findMany({
+      where: { salonId, date: day },
+      orderBy: { startTime: 'asc' },
+    }),
+    findStaffConflicts(userId, range.start, range.end),
+    findHoursExceptions(salonId, day, day),
+  ]);
+
+  const shift = staffShiftForDate(membership, membership.salon.operatingHours, exceptions, day);
+
+  const freeSlots = slots.filter((slot, index) => {
+    if (!shift) return false;
+
+    const minutes = service
+      ? staffServiceTerms(membership, service, service.variants.find(v => v.id === variantId)).durationMinutes
+      : (slot.endTime.getTime() - slot.startTime.getTime()) / 60000;
+    // Every slot the appointment runs through needs room, not just the first
+    if (!isSpanFree(slots, index, minutes)) return false;
+
+    const start = slotStartDateTime(slot, timezone);
+    const end = new Date(start.getTime() + minutes * 60000);
+
+    const startMinutes = zonedParts(start, timezone).minutes;
+    const inShift = startMinutes >= toMinutes(shift.open) && startMinutes + minutes <= toMinutes(shift.close);
+
+    return inShift && !busy.some(b => b.startTime < end && b.endTime > start);
+  });
+
+  res.json({
+    staff: membership.user,
+    date,
+    workingHours: shift ? { open: shift.open, close: shift.close } : null,
+    // Which bookings they are is only for the salon's own staff
+    busy: isSalonStaff(req, salonId) ? busy : busy.map(({ startTime, endTime }) => ({ startTime, endTime })),
+    slots: freeSlots.map(slot => ({
+      id: slot.id,
+      ...slotLocalTimes(slot, timezone),
+      available: slot.capacity - slot.bookedCount,
+    })),
+  });
+}));
+
 /**
  * DELETE /api/salons/:salonId/staff/:membershipId
  * Remove a staff member from salon
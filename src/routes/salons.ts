@@ -12,9 +12,68 @@ import {
 import { prisma } from '../lib/prisma.js';
 import slugify from 'slugify';
 import { upload, uploadToS3 } from '../lib/aws.js';
+import { slotLocalTimes } from '../lib/slots.js';
+import {
+  SLOT_GENERATION_LOCK_TTL_MS,
+  applySlotPlan,
+  describeSlotPlan,
+  planSlotGeneration,
+  slotGenerationLock,
+} from '../lib/slotGeneration.js';
+import { withLock } from '../lib/scheduler.js';
+import { canonicalLocale, isValidLocale, isValidTimeZone } from '../lib/time.js';
+import { WeeklyHours, findHoursExceptions, openingStatus, openingStatusRange } from '../lib/hours.js';
+import { notifySalonMembers } from '../lib/notifications/index.js';
+import { publishSlotCapacity } from '../lib/salonEvents.js';
+import { boundingBox, distanceKm, geocodeAddress } from '../lib/geo.js';
+import { searchAvailableSalons } from '../lib/salonSearch.js';
+import { buildVariants, serviceCatalogue, variantBase } from '../lib/catalogue.js';
 
 const router = Router();
 
+// Slot generation may cover at most this many days per request
+const MAX_GENERATION_DAYS = 366;
+// Nearby search radius when none is given, and the largest allowed
+const DEFAULT_RADIUS_KM = 10;
+const MAX_RADIUS_KM = 100;
+// Days an availability search may span
+const MAX_SEARCH_DAYS = 14;
+
+// Pins a salon somewhere other than where its address geocodes to
+const coordinatesSchema = {
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+};
+
+function hasBothOrNeitherCoordinate(data: { latitude?: number; longitude?: number }): boolean {
+  return (data.latitude === undefined) === (data.longitude === undefined);
+}
+
+const variantsSchema = z.array(z.object({
+  id: z.string().regex(/^[0-9a-fA-F]{24}$/).optional(),
+  name: z.string().trim().min(1).max(60),
+  price: z.number().min(0),
+  durationMinutes: z.number().int().min(5),
+})).max(20).refine(
+  variants => new Set(variants.map(v => v.name.toLowerCase())).size === variants.length,
+  'Variant names must be unique'
+);
+
+/**
+ * Check a category exists in the salon before filing a service under it
+ */
+async function assertSalonCategory(salonId: string, categoryId: string | null | undefined) {
+  if (!categoryId) return;
+  const category = await prisma.serviceCategory.findUnique({ where: { id: categoryId } });
+  if (!category || category.salonId !== salonId) throw createError('Category not found', 404);
+}
+
+const nearbySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusKm: z.coerce.number().positive().max(MAX_RADIUS_KM).default(DEFAULT_RADIUS_KM),
+});
+
 // Validation schemas
 const createSalonSchema = z.object({
   name: z.string().min(2).max(100),
@@ -34,14 +93,23 @@ const createSalonSchema = z.object({
     close: z.string(),
     closed: z.boolean(),
   })).optional(),
-});
+  // IANA timezone, e.g. "Australia/Sydney"
+  timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
+  // Default language of customer messages, e.g. "en-AU"
+  locale: z.string().refine(isValidLocale, 'Invalid locale').transform(canonicalLocale).optional(),
+  ...coordinatesSchema,
+}).refine(hasBothOrNeitherCoordinate, { message: 'Provide both latitude and longitude, or neither', path: ['longitude'] });
 
 /**
  * GET /api/salons
- * List salons with filters
+ * List salons with filters. With lat/lng (and optionally radiusKm), only
+ * salons within the radius are listed, nearest first, with their distanceKm.
  */
 router.get('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const { status, city, search, page = '1', limit = '20', includeOwn } = req.query;
+  const nearby = req.query.lat !== undefined || req.query.lng !== undefined
+    ? nearbySchema.parse(req.query)
+    : null;
 
   const pageNum = Math.max(1, parseInt(page as string));
   const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
@@ -68,15 +136,38 @@ router.get('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res
     ];
   }
 
+  const origin = nearby && { latitude: nearby.lat, longitude: nearby.lng };
+  if (origin) {
+    const box = boundingBox(origin, nearby.radiusKm);
+    where.latitude = box.latitude;
+    if (box.longitude) where.longitude = box.longitude;
+    else where.longitude = { not: null };
+  }
+
+  // Nearby: every salon in the box is measured on its coordinates alone (those in
+  // the corners, outside the radius, are dropped), then only the page is loaded
+  const inRadius = origin
+    ? (await prisma.salon.findMany({ where, select: { id: true, latitude: true, longitude: true } }))
+      .map(salon => ({
+        id: salon.id,
+        distanceKm: Math.round(distanceKm(origin, { latitude: salon.latitude!, longitude: salon.longitude! }) * 100) / 100,
+      }))
+      .filter(salon => salon.distanceKm <= nearby.radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm)
+    : null;
+  const nearbyPage = inRadius?.slice(skip, skip + limitNum);
+
   // 1. Fetch Salons and the User's Favorite IDs in parallel
   const [salons, total, userFavorites] = await Promise.all([
-    prisma.salon.findMany({
-      where,
-      skip,
-      take: limitNum,
-      orderBy: { createdAt: 'desc' },
-    }),
-    prisma.salon.count({ where }),
+    nearbyPage
+      ? prisma.salon.findMany({ where: { id: { in: nearbyPage.map(s => s.id) } } })
+      : prisma.salon.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+      }),
+    inRadius ? Promise.resolve(inRadius.length) : prisma.salon.count({ where }),
     // Only fetch favorites if a user is logged in
     req.user 
       ? prisma.favorite.findMany({
@@ -90,8 +181,16 @@ router.get('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res
   const favoriteSalonIds = userFavorites.map(f => f.salonId);
   const favoriteIds = new Set(userFavorites.map(f => f.salonId));
 
+  // Nearby salons keep their distance order
+  const measured = nearbyPage
+    ? nearbyPage.flatMap(({ id, distanceKm }) => {
+      const salon = salons.find(s => s.id === id);
+      return salon ? [{ ...salon, distanceKm }] : [];
+    })
+    : salons;
+
   // 3. Sanitize, tag with isFavorite, and Sort
-  const processedSalons = salons
+  const processedSalons = measured
     .map(salon => {
       const canViewContact = isSalonStaff(req, salon.id) || isSuperAdmin(req);
       return {
@@ -105,7 +204,7 @@ router.get('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res
       // Sort logic: if 'a' is favorite and 'b' isn't, 'a' comes first (-1)
       if (a.isFavorite && !b.isFavorite) return -1;
       if (!a.isFavorite && b.isFavorite) return 1;
-      return 0; // Maintain createdAt order otherwise
+      return 0; // Maintain createdAt (or distance) order otherwise
     });
 
   res.json({
@@ -120,6 +219,62 @@ router.get('/', optionalAuth, asyncHandler(async (req: AuthenticatedRequest, res
   });
 }));
 
+/**
+ * GET /api/salons/search
+ * Salons that can fit a matching service in the given days and (local) time
+ * window, soonest first, with their earliest free times. Needs a service,
+ * category or city; only the best-rated matching salons are looked at.
+ */
+router.get('/search', asyncHandler(async (req, res) => {
+  const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+  const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
+  const schema = z.object({
+    service: z.string().trim().min(1).max(100).optional(),
+    category: z.string().trim().min(1).max(60).optional(),
+    city: z.string().trim().min(1).max(100).optional(),
+    minPrice: z.coerce.number().min(0).optional(),
+    maxPrice: z.coerce.number().min(0).optional(),
+    date,
+    dateTo: date.optional(),
+    timeFrom: time.optional(),
+    timeTo: time.optional(),
+    timesPerSalon: z.coerce.number().int().min(1).max(10).default(3),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+  })
+    .refine(d => d.service || d.category || d.city, {
+      message: 'Search by service, category or city',
+      path: ['service'],
+    })
+    .refine(d => d.minPrice === undefined || d.maxPrice === undefined || d.minPrice <= d.maxPrice, {
+      message: 'minPrice cannot be above maxPrice',
+      path: ['maxPrice'],
+    })
+    .refine(d => !d.timeFrom || !d.timeTo || d.timeFrom <= d.timeTo, {
+      message: 'timeFrom cannot be after timeTo',
+      path: ['timeTo'],
+    })
+    .refine(d => {
+      const days = (Date.parse(d.dateTo ?? d.date) - Date.parse(d.date)) / (24 * 60 * 60000);
+      return days >= 0 && days < MAX_SEARCH_DAYS;
+    }, { message: `dateTo must be within ${MAX_SEARCH_DAYS} days on or after date`, path: ['dateTo'] });
+
+  const { date: dateFrom, dateTo, page, limit, ...filters } = schema.parse(req.query);
+
+  const results = await searchAvailableSalons({ ...filters, dateFrom, dateTo: dateTo ?? dateFrom });
+
+  res.json({
+    data: results.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total: results.length,
+      totalPages: Math.ceil(results.length / limit),
+    },
+  });
+}));
+
 /**
  * GET /api/salons/:salonId
  * Get single salon details
@@ -144,9 +299,13 @@ router.get('/:salonId', optionalAuth, asyncHandler(async (req: AuthenticatedRequ
     isSalonStaff(req, salon.id) || 
     isSuperAdmin(req);
 
+  const range = openingStatusRange(salon.timezone);
+  const exceptions = await findHoursExceptions(salon.id, range.from, range.to);
+
   res.json({
     salon: {
       ...salon,
+      openingStatus: openingStatus(salon.operatingHours as unknown as WeeklyHours, exceptions, salon.timezone),
       phone: canViewContact ? salon.phone : undefined,
       email: canViewContact ? salon.email : undefined,
       facebookPage: canViewContact ? salon.facebookPage : undefined,
@@ -235,9 +394,14 @@ router.post('/', authMiddleware, asyncHandler(async (req: AuthenticatedRequest,
   trim: true         // trim leading and trailing replacement chars, defaults to `true`
   });
   
+  // Pinned coordinates win over the geocoded address
+  const geocoded = data.latitude === undefined ? await geocodeAddress(data.address, data.city) : null;
+  const coordinates = geocoded?.status === 'found' ? geocoded.point : {};
+
   const salon = await prisma.salon.create({
     data: {
       ...data,
+      ...coordinates,
       operatingHours: data.operatingHours || defaultHours,
       createdBy: req.user!.userId,
       status: 'pending',
@@ -295,15 +459,44 @@ router.put('/:salonId', authMiddleware, asyncHandler(async (req: AuthenticatedRe
       closed: z.boolean(),
     })).optional(),
     defaultSlotCapacity: z.number().min(1).max(50).optional(),
-  });
+    slotDurationMinutes: z.number().int().min(15).max(120).optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Invalid timezone').optional(),
+    locale: z.string().refine(isValidLocale, 'Invalid locale').transform(canonicalLocale).optional(),
+    waitlistHoldMinutes: z.number().int().min(5).max(24 * 60).optional(),
+    // Hours before each appointment to send a reminder, e.g. [24, 2]; [] turns them off
+    reminderOffsetsHours: z.array(z.number().int().min(1).max(24 * 7)).max(5).optional(),
+    // Hours after a completed visit to ask for a review; null turns review requests off
+    reviewRequestDelayHours: z.number().int().min(1).max(24 * 7).nullable().optional(),
+    bookingPolicy: z.object({
+      minCancelNoticeHours: z.number().int().min(0).max(24 * 14).default(0),
+      minRescheduleNoticeHours: z.number().int().min(0).max(24 * 14).default(0),
+      maxReschedules: z.number().int().min(0).max(20).nullable().default(null),
+      lateCancelOutcome: z.enum(['block', 'flag', 'no_show']).default('block'),
+    }).nullable().optional(),
+    ...coordinatesSchema,
+  }).refine(hasBothOrNeitherCoordinate, { message: 'Provide both latitude and longitude, or neither', path: ['longitude'] });
 
   // Log body for debugging if validation fails
 
   try {
     const data = updateSchema.parse(req.body);
+
+    // A new address is geocoded again unless the salon is pinned in the same request
+    let coordinates = {};
+    if (data.latitude === undefined && (data.address || data.city)) {
+      const current = await prisma.salon.findUnique({ where: { id: salonId }, select: { address: true, city: true } });
+      if (!current) throw createError('Salon not found', 404);
+
+      // An address that can't be found clears the old position; a failed
+      // lookup leaves it alone rather than dropping the salon from nearby search
+      const geocoded = await geocodeAddress(data.address ?? current.address, data.city ?? current.city);
+      if (geocoded.status === 'found') coordinates = geocoded.point;
+      else if (geocoded.status === 'not_found') coordinates = { latitude: null, longitude: null };
+    }
+
     const salon = await prisma.salon.update({
       where: { id: salonId },
-      data,
+      data: { ...data, ...coordinates },
     });
 
     res.json({
@@ -354,6 +547,13 @@ router.post('/:salonId/approve', authMiddleware, asyncHandler(async (req: Authen
     },
   });
 
+  notifySalonMembers({
+    type: 'salon_status',
+    roles: ['salon_admin'],
+    data: { salonName: salon.name, status: statusMap[action], reason },
+    salonId: salon.id,
+  }).catch(err => console.error('Notification Background Task Failed:', err));
+
   res.json({
     success: true,
     message: `Salon ${action}d successfully`,
@@ -363,39 +563,86 @@ router.post('/:salonId/approve', authMiddleware, asyncHandler(async (req: Authen
 
 /**
  * GET /api/salons/:salonId/services
- * Get services for a salon
+ * The salon's catalogue: services grouped by category in the salon's order,
+ * with the price to show ("from" when variants cost different amounts).
+ * `services` lists them all in catalogue order. `includeStaff=true` adds the
+ * staff who offer each service, with their prices and durations.
  */
 router.get('/:salonId/services', optionalAuth, asyncHandler(async (req, res) => {
-  const services = await prisma.service.findMany({
-    where: {
-      salonId: req.params.salonId,
-      isActive: true,
-    },
-    orderBy: { name: 'asc' },
+  const { categories, uncategorised } = await serviceCatalogue(req.params.salonId, {
+    includeStaff: req.query.includeStaff === 'true',
   });
 
-  res.json({ services });
+  res.json({
+    services: [...categories.flatMap(category => category.services), ...uncategorised],
+    categories,
+    uncategorised,
+  });
 }));
 
 /**
- * GET /api/salons/:salonId/services
- * Get services for a salon
+ * POST /api/salons/:salonId/services
+ * Add a service
  */
-router.post('/:salonId/services', optionalAuth, asyncHandler(async (req, res) => {
-  const {name, price, description, durationMinutes } = req.body
+router.post('/:salonId/services', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+
+  if (!isSalonAdmin(req, salonId)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const schema = z.object({
+    name: z.string().min(1).max(100),
+    description: z.string().optional(),
+    price: z.number().min(0).optional(),
+    durationMinutes: z.number().min(5).optional(),
+    showPrice: z.boolean().optional(),
+    categoryId: z.string().regex(/^[0-9a-fA-F]{24}$/).nullable().optional(),
+    sortOrder: z.number().int().optional(),
+    variants: variantsSchema.optional(),
+  });
+
+  const { variants, ...data } = schema.parse(req.body);
+  await assertSalonCategory(salonId, data.categoryId);
+
+  const built = buildVariants(variants ?? []);
   const services = await prisma.service.create({
     data: {
-      name,
-      description,
-      durationMinutes,
-      salonId: req.params.salonId,
-      price
+      ...data,
+      salonId,
+      variants: built,
+      ...(built.length > 0 && variantBase(built)),
     }
   });
 
   res.json({ services });
 }));
 
+/**
+ * PUT /api/salons/:salonId/services/order
+ * Set the order of services (within their categories) from a list of ids
+ */
+router.put('/:salonId/services/order', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+
+  if (!isSalonAdmin(req, salonId)) {
+    throw createError('Salon admin access required', 403);
+  }
+
+  const { serviceIds } = z.object({
+    serviceIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/)).min(1).max(500),
+  }).parse(req.body);
+
+  const count = await prisma.service.count({ where: { id: { in: serviceIds }, salonId } });
+  if (count !== new Set(serviceIds).size) throw createError('Service not found', 404);
+
+  await prisma.$transaction(serviceIds.map((id, sortOrder) =>
+    prisma.service.update({ where: { id }, data: { sortOrder } })
+  ));
+
+  res.json({ success: true, ...(await serviceCatalogue(salonId)) });
+}));
+
 // Toggle Favorite: POST /api/salons/:salonId/favorite
 router.post('/:salonId/favorite', authMiddleware, async (req: AuthenticatedRequest, res) => {
   const { salonId } = req.params;
@@ -497,13 +744,30 @@ router.put('/:salonId/services/:serviceId', authMiddleware, asyncHandler(async (
     durationMinutes: z.number().min(5).optional(),
     showPrice: z.boolean().optional(),
     isActive: z.boolean().optional(),
+    categoryId: z.string().regex(/^[0-9a-fA-F]{24}$/).nullable().optional(),
+    sortOrder: z.number().int().optional(),
+    // Replaces the variants; send existing ones with their id to keep it
+    variants: variantsSchema.optional(),
   });
 
-  const data = schema.parse(req.body);
+  const { variants, ...data } = schema.parse(req.body);
+  await assertSalonCategory(salonId, data.categoryId);
+
+  let variantData = {};
+  if (variants) {
+    const current = await prisma.service.findFirst({ where: { id: serviceId, salonId }, select: { variants: true } });
+    if (!current) throw createError('Service not found', 404);
+    if (variants.some(v => v.id && !current.variants.some(existing => existing.id === v.id))) {
+      throw createError('Variant not found', 404);
+    }
+
+    const built = buildVariants(variants);
+    variantData = { variants: { set: built }, ...(built.length > 0 && variantBase(built)) };
+  }
 
   const service = await prisma.service.update({
     where: { id: serviceId, salonId },
-    data,
+    data: { ...data, ...variantData },
   });
 
   res.json({ success: true, service });
@@ -538,24 +802,37 @@ router.get('/:salonId/slots', asyncHandler(async (req, res) => {
     throw createError('Date query parameter required', 400);
   }
 
-  const slots = await prisma.slot.findMany({
-    where: {
-      salonId: req.params.salonId,
-      date: new Date(date as string),
-    },
-    orderBy: { startTime: 'asc' },
-  });
+  const [salon, slots] = await Promise.all([
+    prisma.salon.findUnique({ where: { id: req.params.salonId }, select: { timezone: true } }),
+    prisma.slot.findMany({
+      where: {
+        salonId: req.params.salonId,
+        date: new Date(date as string),
+      },
+      orderBy: { startTime: 'asc' },
+    }),
+  ]);
 
+  if (!salon) throw createError('Salon not found', 404);
+
+  // Times are shown as wall-clock times at the salon
   res.json({
     slots: slots.map(slot => ({
       ...slot,
-      startTime: slot.startTime.toISOString().substring(11, 19),
-      endTime: slot.endTime.toISOString().substring(11, 19),
+      ...slotLocalTimes(slot, salon.timezone),
       available: slot.capacity - slot.bookedCount,
     })),
   });
 }));
 
+/**
+ * POST /api/salons/:salonId/slots/generate
+ * Generate slots from the salon's hours. Safe to re-run: existing slots are
+ * kept or updated, empty slots outside the hours are removed and booked slots
+ * are never touched. A custom slot length or capacity becomes the salon's
+ * setting, which the scheduled generation then keeps using. `dryRun` returns
+ * the plan without applying (or saving) anything.
+ */
 router.post('/:salonId/slots/generate', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
   const salonId = req.params.salonId;
 
@@ -564,74 +841,66 @@ router.post('/:salonId/slots/generate', authMiddleware, asyncHandler(async (req:
   }
 
   const schema = z.object({
-    startDate: z.string(), // Format: "YYYY-MM-DD"
-    endDate: z.string(),   // Format: "YYYY-MM-DD"
-    slotDurationMinutes: z.number().min(15).max(120),
-    defaultCapacity: z.number().min(1).max(50),
+    startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // Format: "YYYY-MM-DD"
+    endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),   // Format: "YYYY-MM-DD"
+    slotDurationMinutes: z.number().min(15).max(120).optional(),
+    defaultCapacity: z.number().min(1).max(50).optional(),
+    // Keep the slot length and capacity as the salon's settings. Otherwise the
+    // scheduled job puts empty slots back to the settings on its next run.
+    saveAsDefault: z.boolean().default(false),
+    dryRun: z.boolean().default(false),
   });
 
-  const { startDate, endDate, slotDurationMinutes, defaultCapacity } = schema.parse(req.body);
+  const { startDate, endDate, slotDurationMinutes, defaultCapacity, saveAsDefault, dryRun } = schema.parse(req.body);
+
+  const days = (new Date(endDate).getTime() - new Date(startDate).getTime()) / (24 * 60 * 60000) + 1;
+  if (isNaN(days) || days < 1) throw createError('End date must not be before start date', 400);
+  if (days > MAX_GENERATION_DAYS) throw createError(`At most ${MAX_GENERATION_DAYS} days at a time`, 400);
 
   const salon = await prisma.salon.findUnique({ where: { id: salonId } });
   if (!salon) throw createError('Salon not found', 404);
 
-  const operatingHours = salon.operatingHours as Record<string, { open: string; close: string; closed: boolean }>;
-  const daysOfWeek = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const slotsToCreate = [];
-
-  // Initialize loop variables
-  let currentDate = new Date(startDate);
-  const finalDate = new Date(endDate);
-
-  while (currentDate <= finalDate) {
-    const dayName = daysOfWeek[currentDate.getDay()];
-    const config = operatingHours[dayName];
-
-    // Check if salon is open this day and has valid strings
-    if (config && !config.closed && config.open && config.close) {
-      const [openH, openM] = config.open.split(':').map(Number);
-      const [closeH, closeM] = config.close.split(':').map(Number);
-
-      let currentTotalMinutes = openH * 60 + openM;
-      const closingTotalMinutes = closeH * 60 + closeM;
-
-      while (currentTotalMinutes + slotDurationMinutes <= closingTotalMinutes) {
-        const startH = Math.floor(currentTotalMinutes / 60);
-        const startM = currentTotalMinutes % 60;
-        
-        const endTotalMinutes = currentTotalMinutes + slotDurationMinutes;
-        const endH = Math.floor(endTotalMinutes / 60);
-        const endM = endTotalMinutes % 60;
-
-        // Create ISO Strings for Time columns (using UTC Z to prevent shifts)
-        const timeStart = `${String(startH).padStart(2, '0')}:${String(startM).padStart(2, '0')}:00Z`;
-        const timeEnd = `${String(endH).padStart(2, '0')}:${String(endM).padStart(2, '0')}:00Z`;
-
-        slotsToCreate.push({
-          salonId,
-          // Store date as midnight UTC for consistency
-          date: new Date(`${currentDate.toISOString().split('T')[0]}T00:00:00Z`),
-          startTime: new Date(`1970-01-01T${timeStart}`),
-          endTime: new Date(`1970-01-01T${timeEnd}`),
-          capacity: defaultCapacity,
-        });
-
-        currentTotalMinutes += slotDurationMinutes;
-      }
-    }
-    // Move to next day
-    currentDate.setDate(currentDate.getDate() + 1);
+  const options = {
+    startDate,
+    endDate,
+    slotDurationMinutes: slotDurationMinutes ?? salon.slotDurationMinutes,
+    capacity: defaultCapacity ?? salon.defaultSlotCapacity,
+  };
+
+  if (dryRun) {
+    const plan = await planSlotGeneration(salon, options);
+    return res.json({ success: true, dryRun: true, plan: describeSlotPlan(plan, salon.timezone) });
   }
 
-  const result = await prisma.slot.createMany({
-    data: slotsToCreate,
-    // skipDuplicates is not supported in this context, remove it
+  // Same lock as the scheduled job, so the two never write these slots at once
+  const generated = await withLock(slotGenerationLock(salonId), SLOT_GENERATION_LOCK_TTL_MS, async () => {
+    const changesDefaults = options.slotDurationMinutes !== salon.slotDurationMinutes
+      || options.capacity !== salon.defaultSlotCapacity;
+    if (saveAsDefault && changesDefaults) {
+      await prisma.salon.update({
+        where: { id: salonId },
+        data: { slotDurationMinutes: options.slotDurationMinutes, defaultSlotCapacity: options.capacity },
+      });
+    }
+
+    const plan = await planSlotGeneration(salon, options);
+    return { plan, result: await applySlotPlan(salonId, plan) };
   });
+  if (!generated) {
+    throw createError('Slots are being generated right now, try again shortly', 409, 'SLOT_GENERATION_RUNNING');
+  }
+
+  const { plan, result } = generated;
 
   res.json({ 
     success: true, 
-    slotsCreated: result.count,
-    message: `Generated ${result.count} slots successfully.`
+    slotsCreated: result.created,
+    slotsUpdated: result.updated,
+    slotsDeleted: result.deleted,
+    slotsUnchanged: plan.unchanged,
+    // Booked slots that no longer fit the hours
+    slotsKept: plan.kept.length,
+    message: `Generated ${result.created} slots successfully.`
   });
 }));
 /**
@@ -656,6 +925,8 @@ router.put('/:salonId/slots/:slotId', authMiddleware, asyncHandler(async (req: A
     data,
   });
 
+  publishSlotCapacity(salonId, [slot.id]);
+
   res.json({ success: true, slot });
 }));
 
@@ -0,0 +1,146 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, isSalonAdmin, isSuperAdmin } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+
+const router = Router({ mergeParams: true });
+
+function assertSalonAdmin(req: AuthenticatedRequest, salonId: string) {
+  if (!isSalonAdmin(req, salonId) && !isSuperAdmin(req)) {
+    throw createError('Salon admin access required', 403);
+  }
+}
+
+/**
+ * Run a category write, turning a duplicate name into a 409
+ */
+async function uniqueName<T>(write: Promise<T>): Promise<T> {
+  try {
+    return await write;
+  } catch (err) {
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      throw createError('A category with this name already exists', 409, 'CATEGORY_EXISTS');
+    }
+    throw err;
+  }
+}
+
+async function findCategory(salonId: string, categoryId: string) {
+  const category = await prisma.serviceCategory.findUnique({ where: { id: categoryId } });
+  if (!category || category.salonId !== salonId) throw createError('Category not found', 404);
+  return category;
+}
+
+/**
+ * GET /api/salons/:salonId/service-categories
+ * The salon's categories in catalogue order (public)
+ */
+router.get('/', asyncHandler(async (req, res) => {
+  const categories = await prisma.serviceCategory.findMany({
+    where: { salonId: req.params.salonId },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+
+  res.json({ data: categories });
+}));
+
+/**
+ * POST /api/salons/:salonId/service-categories
+ * Add a category; it goes last unless a sortOrder is given
+ */
+router.post('/', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const schema = z.object({
+    name: z.string().trim().min(1).max(60),
+    sortOrder: z.number().int().optional(),
+  });
+
+  const data = schema.parse(req.body);
+
+  const last = await prisma.serviceCategory.findFirst({
+    where: { salonId },
+    orderBy: { sortOrder: 'desc' },
+    select: { sortOrder: true },
+  });
+
+  const category = await uniqueName(prisma.serviceCategory.create({
+    data: { salonId, name: data.name, sortOrder: data.sortOrder ?? (last ? last.sortOrder + 1 : 0) },
+  }));
+
+  res.status(201).json({ success: true, category });
+}));
+
+/**
+ * PUT /api/salons/:salonId/service-categories/order
+ * Set the order of the categories from a list of ids
+ */
+router.put('/order', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const { categoryIds } = z.object({
+    categoryIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/)).min(1).max(100),
+  }).parse(req.body);
+
+  const count = await prisma.serviceCategory.count({ where: { id: { in: categoryIds }, salonId } });
+  if (count !== new Set(categoryIds).size) throw createError('Category not found', 404);
+
+  await prisma.$transaction(categoryIds.map((id, sortOrder) =>
+    prisma.serviceCategory.update({ where: { id }, data: { sortOrder } })
+  ));
+
+  const categories = await prisma.serviceCategory.findMany({
+    where: { salonId },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+
+  res.json({ success: true, data: categories });
+}));
+
+/**
+ * PUT /api/salons/:salonId/service-categories/:categoryId
+ * Rename or move a category
+ */
+router.put('/:categoryId', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, categoryId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  const schema = z.object({
+    name: z.string().trim().min(1).max(60).optional(),
+    sortOrder: z.number().int().optional(),
+  });
+
+  const data = schema.parse(req.body);
+  await findCategory(salonId, categoryId);
+
+  const category = await uniqueName(prisma.serviceCategory.update({
+    where: { id: categoryId },
+    data,
+  }));
+
+  res.json({ success: true, category });
+}));
+
+/**
+ * DELETE /api/salons/:salonId/service-categories/:categoryId
+ * Delete a category; its services stay, without a category
+ */
+router.delete('/:categoryId', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, categoryId } = req.params;
+  assertSalonAdmin(req, salonId);
+
+  await findCategory(salonId, categoryId);
+
+  await prisma.$transaction([
+    prisma.service.updateMany({ where: { categoryId }, data: { categoryId: null } }),
+    prisma.serviceCategory.delete({ where: { id: categoryId } }),
+  ]);
+
+  res.json({ success: true, message: 'Category deleted' });
+}));
+
+export default router;
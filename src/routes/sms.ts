@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import twilio from 'twilio';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import { validateTwilioSignature } from '../middleware/twilio.js';
+import { prisma } from '../lib/prisma.js';
+import { cancelWithinPolicy, notifyCancellation } from '../lib/bookings.js';
+import { notifySalonMembers } from '../lib/notifications/index.js';
+import { recordProviderStatus } from '../lib/notifications/queue.js';
+import {
+  OPT_IN_KEYWORDS,
+  OPT_OUT_KEYWORDS,
+  clearSmsOptOut,
+  recordSmsOptOut,
+} from '../lib/notifications/preferences.js';
+import { formatDateTime } from '../lib/time.js';
+
+const router = Router();
+
+const CONFIRM_KEYWORDS = ['C', 'CONFIRM', 'YES', 'Y'];
+// "CANCEL" is a carrier opt-out keyword, so appointments are cancelled with "X"
+const CANCEL_KEYWORDS = ['X'];
+const HELP_KEYWORDS = ['HELP', 'INFO'];
+
+/**
+ * POST /api/sms/inbound
+ * Twilio webhook for SMS replies: "C" confirms and "X" cancels the sender's
+ * next appointment, STOP/START opt the number out of and back into SMS;
+ * anything else is forwarded to the salon admin
+ */
+router.post('/inbound', validateTwilioSignature, asyncHandler(async (req, res) => {
+  const from = String(req.body.From ?? '');
+  const text = String(req.body.Body ?? '').trim();
+  const keyword = text.toUpperCase();
+
+  const twiml = new twilio.twiml.MessagingResponse();
+  const reply = (message: string) => {
+    twiml.message(message);
+    res.type('text/xml').send(twiml.toString());
+  };
+  // Twilio answers carrier keywords itself, so those get an empty response
+  const acknowledge = () => res.type('text/xml').send(twiml.toString());
+
+  if (OPT_OUT_KEYWORDS.includes(keyword)) {
+    await recordSmsOptOut(from, keyword);
+    return acknowledge();
+  }
+
+  if (OPT_IN_KEYWORDS.includes(keyword)) {
+    await clearSmsOptOut(from);
+    // "YES" also confirms the next appointment below
+    if (!CONFIRM_KEYWORDS.includes(keyword)) return acknowledge();
+  }
+
+  if (HELP_KEYWORDS.includes(keyword)) {
+    return reply('Reply C to confirm or X to cancel your next appointment. Reply STOP to stop receiving SMS.');
+  }
+
+  const user = await prisma.user.findUnique({ where: { phone: from } });
+  const booking = user && await prisma.booking.findFirst({
+    where: { userId: user.id, status: 'booked', startTime: { gt: new Date() } },
+    include: { salon: { select: { name: true, timezone: true } } },
+    orderBy: { startTime: 'asc' },
+  });
+
+  if (!user || !booking) {
+    return reply("We couldn't find an upcoming appointment for this number.");
+  }
+
+  const when = formatDateTime(booking.startTime, booking.salon.timezone);
+
+  if (CONFIRM_KEYWORDS.includes(keyword)) {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { confirmedAt: new Date() },
+    });
+    return reply(`Thanks ${user.fullName}, your appointment at ${booking.salon.name} on ${when} is confirmed.`);
+  }
+
+  if (CANCEL_KEYWORDS.includes(keyword)) {
+    try {
+      await cancelWithinPolicy(booking);
+    } catch (err: any) {
+      // Policy refusals (e.g. too late to cancel) go back to the customer
+      if (!err.statusCode) throw err;
+      return reply(`Sorry, we couldn't cancel your appointment on ${when}: ${err.message}. Please call ${booking.salon.name}.`);
+    }
+    notifyCancellation(booking.id, { notifyCustomer: false })
+      .catch(err => console.error('Notification Background Task Failed:', err));
+    return reply(`Your appointment at ${booking.salon.name} on ${when} has been cancelled.`);
+  }
+
+  // Anything else is a message for the salon
+  await notifySalonMembers({
+    type: 'customer_reply',
+    roles: ['salon_admin'],
+    data: { customerName: user.fullName, customerPhone: from, message: text },
+    salonId: booking.salonId,
+    bookingId: booking.id,
+  });
+
+  reply(`Thanks, we've passed your message on to ${booking.salon.name}. Reply C to confirm or X to cancel your appointment on ${when}.`);
+}));
+
+/**
+ * POST /api/sms/status
+ * Twilio delivery status callback for outgoing SMS and WhatsApp messages
+ */
+router.post('/status', validateTwilioSignature, asyncHandler(async (req, res) => {
+  const messageSid = String(req.body.MessageSid ?? '');
+  const messageStatus = String(req.body.MessageStatus ?? '');
+
+  if (messageSid && messageStatus) {
+    await recordProviderStatus(messageSid, messageStatus, req.body.ErrorCode ? String(req.body.ErrorCode) : undefined);
+  }
+
+  res.status(204).end();
+}));
+
+export default router;
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { authMiddleware, AuthenticatedRequest, isSuperAdmin } from '../middleware/auth.js';
 import { prisma } from '../lib/prisma.js';
+import { canonicalLocale, isValidLocale } from '../lib/time.js';
+import { isSmsOptedOut, notificationPreferences } from '../lib/notifications/preferences.js';
 
 const router = Router();
 
@@ -35,6 +37,8 @@ router.put('/me', asyncHandler(async (req: AuthenticatedRequest, res) => {
     phone: z.string().regex(/^\+[1-9]\d{1,14}$/).optional(),
     avatarUrl: z.string().url().optional(),
     description: z.string().optional(),
+    // Language of messages sent to the user, e.g. "en-AU"; null uses the salon's
+    locale: z.string().refine(isValidLocale, 'Invalid locale').transform(canonicalLocale).nullable().optional(),
   });
 
   const data = schema.parse(req.body);
@@ -81,6 +85,118 @@ router.get('/me/memberships', asyncHandler(async (req: AuthenticatedRequest, res
   });
 }));
 
+/**
+ * GET /api/users/me/notification-preferences
+ * Which optional messages the user receives, and whether their number texted STOP
+ */
+router.get('/me/notification-preferences', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.userId },
+    select: { phone: true, notificationPreferences: true },
+  });
+
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  res.json({
+    preferences: notificationPreferences(user),
+    smsOptedOut: user.phone ? await isSmsOptedOut(user.phone) : false,
+  });
+}));
+
+/**
+ * PUT /api/users/me/notification-preferences
+ * Update notification preferences. Booking confirmations, cancellations and
+ * login codes are always sent; these only control reminders and marketing.
+ */
+router.put('/me/notification-preferences', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const schema = z.object({
+    sms: z.boolean().optional(),
+    email: z.boolean().optional(),
+    whatsapp: z.boolean().optional(),
+    push: z.boolean().optional(),
+    reminders: z.boolean().optional(),
+    marketing: z.boolean().optional(),
+  });
+
+  const data = schema.parse(req.body);
+
+  const current = await prisma.user.findUnique({
+    where: { id: req.user!.userId },
+    select: { notificationPreferences: true },
+  });
+
+  if (!current) {
+    throw createError('User not found', 404);
+  }
+
+  const user = await prisma.user.update({
+    where: { id: req.user!.userId },
+    data: { notificationPreferences: { ...notificationPreferences(current), ...data } },
+    select: { phone: true, notificationPreferences: true },
+  });
+
+  res.json({
+    success: true,
+    preferences: notificationPreferences(user),
+    // A carrier opt-out can only be lifted by texting START
+    smsOptedOut: user.phone ? await isSmsOptedOut(user.phone) : false,
+  });
+}));
+
+/**
+ * GET /api/users/me/push-subscriptions
+ * Browsers subscribed to web push, plus the public key for subscribing
+ */
+router.get('/me/push-subscriptions', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: { userId: req.user!.userId },
+    select: { id: true, endpoint: true, createdAt: true },
+  });
+
+  res.json({ publicKey: process.env.VAPID_PUBLIC_KEY ?? null, data: subscriptions });
+}));
+
+/**
+ * POST /api/users/me/push-subscriptions
+ * Register a browser's push subscription (the PushSubscription JSON from the browser)
+ */
+router.post('/me/push-subscriptions', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const schema = z.object({
+    endpoint: z.string().url(),
+    keys: z.object({
+      p256dh: z.string().min(1),
+      auth: z.string().min(1),
+    }),
+  });
+
+  const { endpoint, keys } = schema.parse(req.body);
+
+  // The same browser may have been registered by someone else who used it before
+  const subscription = await prisma.pushSubscription.upsert({
+    where: { endpoint },
+    create: { userId: req.user!.userId, endpoint, ...keys },
+    update: { userId: req.user!.userId, ...keys },
+  });
+
+  res.status(201).json({ success: true, subscription });
+}));
+
+/**
+ * DELETE /api/users/me/push-subscriptions
+ * Unregister a browser's push subscription
+ */
+router.delete('/me/push-subscriptions', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { endpoint } = z.object({ endpoint: z.string().url() }).parse(req.body);
+
+  await prisma.pushSubscription.deleteMany({
+    where: { userId: req.user!.userId, endpoint },
+  });
+
+  res.json({ success: true, message: 'Push subscription removed' });
+}));
+
 /**
  * GET /api/users
  * List users (admin or salon staff only)
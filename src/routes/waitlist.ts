@@ -0,0 +1,240 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler, createError } from '../middleware/errorHandler.js';
+import { authMiddleware, AuthenticatedRequest, isSalonStaff, isSuperAdmin } from '../middleware/auth.js';
+import { prisma } from '../lib/prisma.js';
+import { slotStartDateTime } from '../lib/slots.js';
+import { withdrawOffer } from '../lib/waitlist.js';
+import { appointmentData, generateQrCode, heldVisitItems } from '../lib/bookings.js';
+import { resolveVariant } from '../lib/catalogue.js';
+import { notify } from '../lib/notifications/index.js';
+import { publishBookingEvent } from '../lib/salonEvents.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authMiddleware);
+
+/**
+ * GET /api/waitlist
+ * List the caller's waitlist entries, or a salon's entries for its staff
+ */
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { salonId, status, date } = req.query;
+
+  const where: any = {};
+
+  if (salonId && (isSalonStaff(req, salonId as string) || isSuperAdmin(req))) {
+    where.salonId = salonId;
+  } else {
+    where.userId = req.user!.userId;
+    if (salonId) where.salonId = salonId;
+  }
+
+  if (status && status !== 'all') where.status = status;
+  if (date) where.date = new Date(`${date}T00:00:00.000Z`);
+
+  const entries = await prisma.waitlistEntry.findMany({
+    where,
+    include: {
+      salon: { select: { id: true, name: true } },
+      service: { select: { id: true, name: true, durationMinutes: true } },
+      user: { select: { id: true, fullName: true, phone: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.json({ data: entries });
+}));
+
+/**
+ * POST /api/waitlist
+ * Join the waitlist for a full slot, or for a time window on a date
+ */
+router.post('/', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const time = z.string().regex(/^\d{2}:\d{2}$/, 'Time must be HH:mm');
+  const schema = z.object({
+    salonId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Salon ID format"),
+    serviceId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Service ID format"),
+    // The option chosen, for services with variants
+    variantId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Variant ID format").optional(),
+    slotId: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid Slot ID format").optional(),
+    date: z.string().optional(), // YYYY-MM-DD, required without slotId
+    windowStart: time.optional(),
+    windowEnd: time.optional(),
+  }).refine(d => d.slotId || d.date, { message: 'Either slotId or date is required', path: ['date'] });
+
+  const data = schema.parse(req.body);
+  const userId = req.user!.userId;
+
+  const [salon, service, slot] = await Promise.all([
+    prisma.salon.findUnique({ where: { id: data.salonId } }),
+    prisma.service.findUnique({ where: { id: data.serviceId } }),
+    data.slotId ? prisma.slot.findUnique({ where: { id: data.slotId } }) : Promise.resolve(null),
+  ]);
+
+  if (!salon || salon.status !== 'approved') throw createError('Salon unavailable', 400);
+  if (!service || service.salonId !== salon.id || !service.isActive) throw createError('Service unavailable', 400);
+  const variant = resolveVariant(service, data.variantId);
+
+  if (data.slotId) {
+    if (!slot || slot.salonId !== salon.id) throw createError('Slot not found', 404);
+    if (slot.bookedCount < slot.capacity) {
+      throw createError('Slot still has availability, book it instead', 400, 'SLOT_AVAILABLE');
+    }
+  }
+
+  const date = slot ? slot.date : new Date(`${data.date}T00:00:00.000Z`);
+  if (isNaN(date.getTime())) throw createError('Invalid date', 400);
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: {
+      userId,
+      serviceId: service.id,
+      date,
+      slotId: data.slotId ?? null,
+      status: { in: ['waiting', 'offered'] },
+    },
+  });
+
+  if (existing) {
+    throw createError('You are already on the waitlist for this time', 400, 'ALREADY_WAITLISTED');
+  }
+
+  const entry = await prisma.waitlistEntry.create({
+    data: {
+      salonId: salon.id,
+      userId,
+      serviceId: service.id,
+      variantId: variant?.id,
+      slotId: data.slotId,
+      date,
+      windowStart: data.slotId ? undefined : data.windowStart,
+      windowEnd: data.slotId ? undefined : data.windowEnd,
+    },
+  });
+
+  const position = await prisma.waitlistEntry.count({
+    where: { salonId: salon.id, date, status: 'waiting', createdAt: { lte: entry.createdAt } },
+  });
+
+  res.status(201).json({ success: true, entry, position });
+}));
+
+/**
+ * POST /api/waitlist/:entryId/accept
+ * Turn an open offer into a booking
+ */
+router.post('/:entryId/accept', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: req.params.entryId },
+    include: {
+      salon: true,
+      service: true,
+      user: true,
+    },
+  });
+
+  if (!entry || entry.userId !== req.user!.userId) {
+    throw createError('Waitlist entry not found', 404);
+  }
+
+  if (entry.status !== 'offered' || !entry.offerExpiresAt || entry.offerExpiresAt < new Date()) {
+    throw createError('This offer is no longer available', 400, 'OFFER_EXPIRED');
+  }
+
+  const firstSlot = await prisma.slot.findUnique({ where: { id: entry.offeredSlotIds[0] } });
+  if (!firstSlot) throw createError('Slot not found', 404);
+
+  const startDateTime = slotStartDateTime(firstSlot, entry.salon.timezone);
+  const items = await heldVisitItems(
+    entry.salonId,
+    [{ service: entry.service, variant: resolveVariant(entry.service, entry.variantId) }],
+    startDateTime
+  );
+  const endDateTime = items[items.length - 1].endTime;
+  const qrCode = generateQrCode();
+
+  // The places are already held by the offer, so only the booking is created here
+  const booking = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.waitlistEntry.updateMany({
+      where: { id: entry.id, status: 'offered' },
+      data: { status: 'booked' },
+    });
+    if (count === 0) throw createError('This offer is no longer available', 400, 'OFFER_EXPIRED');
+
+    const created = await tx.booking.create({
+      data: {
+        userId: entry.userId,
+        salonId: entry.salonId,
+        serviceId: entry.serviceId,
+        slotId: firstSlot.id,
+        slotIds: entry.offeredSlotIds,
+        items,
+        totalPrice: items.reduce((sum, item) => sum + item.price, 0),
+        totalDurationMinutes: (endDateTime.getTime() - startDateTime.getTime()) / 60000,
+        bookingDate: firstSlot.date,
+        startTime: startDateTime,
+        endTime: endDateTime,
+        qrCode,
+        status: 'booked',
+      },
+      include: {
+        salon: { select: { name: true } },
+        service: { select: { name: true, price: true } },
+      },
+    });
+
+    await tx.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { bookingId: created.id },
+    });
+
+    return created;
+  });
+
+  publishBookingEvent(booking, 'booking.created');
+
+  notify({
+    type: 'booking_confirmation',
+    recipient: { userId: entry.user.id, phone: entry.user.phone, email: entry.user.email },
+    data: appointmentData(booking, entry.salon, entry.user.fullName),
+    salonId: entry.salonId,
+    bookingId: booking.id,
+  }).catch(err => console.error('Notification Background Task Failed:', err));
+
+  res.status(201).json({ success: true, booking });
+}));
+
+/**
+ * DELETE /api/waitlist/:entryId
+ * Leave the waitlist, or decline an open offer
+ */
+router.delete('/:entryId', asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: req.params.entryId },
+  });
+
+  if (!entry) {
+    throw createError('Waitlist entry not found', 404);
+  }
+
+  if (entry.userId !== req.user!.userId && !isSalonStaff(req, entry.salonId) && !isSuperAdmin(req)) {
+    throw createError('Access denied', 403);
+  }
+
+  if (entry.status === 'offered') {
+    await withdrawOffer(entry, 'cancelled');
+  } else if (entry.status === 'waiting') {
+    await prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: 'cancelled' },
+    });
+  } else {
+    throw createError('Waitlist entry is already closed', 400);
+  }
+
+  res.json({ success: true, message: 'Removed from waitlist' });
+}));
+
+export default router;